@@ -1,15 +1,19 @@
 import {
   DtlsParameters,
+  IceParameters,
   MediaKind,
   RtpCapabilities,
   RtpParameters,
   TransportOptions,
 } from "mediasoup-client/lib/types";
+import { CallAction } from "./capabilities";
 
 export enum DisconnectReason {
   error = "error",
   roomClose = "roomClose",
   connectedElsewhere = "connectedElsewhere",
+  removed = "removed",
+  denied = "denied",
 }
 
 export enum ConnectionStateQuality {
@@ -84,13 +88,64 @@ export type PublishedParticipant = {
   consumers: Partial<Record<ProducerLabel, PublishedConsumerInfo>>;
   manualConsumerPauses: Partial<Record<ProducerLabel, boolean>>;
   status: UserStatus[];
+  // ISO 8601, while UserStatus.HandRaised
+  handRaisedAt?: string;
   connectionState: OutputConnectionState;
 };
 
 export type PublishedRoomState = {
   participants: Record<string, PublishedParticipant>;
   status: CallStatus;
-  // TODO max duration
+  // when locked, nobody else may join
+  locked?: boolean;
+  stage?: Stage;
+  // running timers by name, such as maxDuration
+  timers?: Record<string, PublishedTimer>;
+  // entrants waiting to be admitted, oldest first
+  waiting?: WaitingEntrant[];
+};
+
+export type WaitingEntrant = {
+  user: User;
+  // ISO 8601
+  since: string;
+};
+
+export type PublishedTimer = {
+  msRemaining: number;
+  msElapsed: number;
+};
+
+// webinar attendees who may publish, by user id
+export type Stage = {
+  onStage: string[];
+  invited: string[];
+};
+
+// moderation actions recorded in the audit trail
+export type AuditAction =
+  | "removeParticipant"
+  | "lockRoom"
+  | "unlockRoom"
+  | "warnParticipant"
+  | "remoteAudioMute"
+  | "remoteAudioUnmute"
+  | "remoteVideoMute"
+  | "remoteVideoUnmute"
+  | "remoteLowerHand"
+  | "lowerAllHands"
+  | "admitEntrant"
+  | "denyEntrant"
+  | "terminate";
+
+export type AuditEntry = {
+  actor: User;
+  action: AuditAction;
+  targetUserId?: string;
+  // e.g. the reason for a removal, or the text of a warning
+  detail?: string;
+  // ISO 8601
+  timestamp: string;
 };
 
 export type WebRtcInfo = Pick<
@@ -101,33 +156,97 @@ export type WebRtcInfo = Pick<
 const producerUpdateReasons = ["paused_video_bad_connection"] as const;
 export type PRODUCER_UPDATE_REASONS = typeof producerUpdateReasons[number];
 
+// a single user, or everyone with a role
+export type MessageRecipient = { userId: string } | { role: Role };
+
+// how the sender's moderation screened a message, whose contents are sent
+// redacted
+export type MessageScreening = {
+  flagged: boolean;
+  redacted: boolean;
+  reasons: string[];
+  // the unredacted contents, which the server only relays to monitors
+  originalContents?: string;
+};
+
+export type TextMessage = {
+  id: string;
+  from: User;
+  // missing when sent to the whole room
+  to?: MessageRecipient;
+  contents: string;
+  // ISO 8601, assigned by the server
+  timestamp: string;
+  // echoed from the sender
+  clientMessageId?: string;
+  screening?: MessageScreening;
+};
+
+// what a participant needs to take part in the call, once admitted
+export type RoomAdmission = {
+  role: Role;
+  userId: string;
+  status: UserStatus[];
+  consumerTransportInfo: WebRtcInfo;
+  producerTransportInfo?: WebRtcInfo;
+  routerRtpCapabilities: RtpCapabilities;
+  // allows resuming this session after a brief disconnect, when supported
+  resumeToken?: string;
+  // overrides the default capabilities of the role
+  capabilities?: CallAction[];
+};
+
+// sent on join instead of an admission when the room has a waiting room
+export type WaitingRoomPosition = {
+  waiting: true;
+  // 1 is next to be admitted
+  position: number;
+};
+
 export type ServerMessages = {
-  textMessage: {
-    from: User;
-    contents: string;
-  };
-  timer: { name: "maxDuration"; msRemaining: number; msElapsed: number };
+  textMessage: TextMessage;
+  timer: PublishedTimer & { name: string };
   state: PublishedRoomState;
+  // volumes in dBov, between -127 and 0, of peers that are not silent
+  audioLevels: { peerId: string; volume: number }[];
+  activeSpeaker: { peerId: string | undefined };
   manualDisconnect: DisconnectReason;
+  // sent to a participant warned by a monitor
+  warning: { from: User; message: string };
+  // sent to monitors whenever anyone takes a moderation action
+  auditEntry: AuditEntry;
+  // sent to entrants in the waiting room as the queue moves
+  waitingRoom: Omit<WaitingRoomPosition, "waiting">;
+  admitted: RoomAdmission;
+  denied: { reason?: string };
   disconnect: string; // This is not actually a server message but is still a socket.on() handler
+  connect: undefined; // Likewise, fired by socket.io when it (re)connects
 };
 
 export type ClientMessages = {
   pauseConsumer: [{ peerId: string; label: ProducerLabel }, { success: true }];
   resumeConsumer: [{ peerId: string; label: ProducerLabel }, { success: true }];
   connectionState: [InputConnectionState, { success: true }];
-  join: [
-    { token: string },
+  join: [{ token: string }, RoomAdmission | WaitingRoomPosition];
+  resume: [
+    { resumeToken: string },
     {
-      role: Role;
-      userId: string;
-      status: UserStatus[];
-      consumerTransportInfo: WebRtcInfo;
-      producerTransportInfo?: WebRtcInfo;
-      routerRtpCapabilities: RtpCapabilities;
+      resumeToken: string;
+      consumerIceParameters: IceParameters;
+      producerIceParameters?: IceParameters;
     }
   ];
-  textMessage: [{ contents: string }, { success: true }];
+  textMessage: [
+    {
+      contents: string;
+      clientMessageId: string;
+      to?: MessageRecipient;
+      screening?: MessageScreening;
+    },
+    { id: string; timestamp: string }
+  ];
+  // messages after the given id, or all of them
+  messageHistory: [{ after?: string }, { messages: TextMessage[] }];
   terminate: [Record<string, never>, { success: true }];
   remoteAudioMute: [{ targetUserId: string }, { success: true }];
   remoteAudioUnmute: [{ targetUserId: string }, { success: true }];
@@ -136,10 +255,32 @@ export type ClientMessages = {
   raiseHand: [Record<string, never>, { success: true }];
   lowerHand: [Record<string, never>, { success: true }];
   remoteLowerHand: [{ targetUserId: string }, { success: true }];
+  lowerAllHands: [Record<string, never>, { success: true }];
+  removeParticipant: [
+    { targetUserId: string; reason?: string },
+    { success: true }
+  ];
+  lockRoom: [Record<string, never>, { success: true }];
+  unlockRoom: [Record<string, never>, { success: true }];
+  warnParticipant: [
+    { targetUserId: string; message: string },
+    { success: true }
+  ];
+  admitEntrant: [{ targetUserId: string }, { success: true }];
+  denyEntrant: [{ targetUserId: string; reason?: string }, { success: true }];
+  inviteToStage: [{ targetUserId: string }, { success: true }];
+  removeFromStage: [{ targetUserId: string }, { success: true }];
+  // accepting provides a transport to publish with
+  respondToStageInvitation: [
+    { accept: boolean },
+    { producerTransportInfo?: WebRtcInfo }
+  ];
+  leaveStage: [Record<string, never>, { success: true }];
   setPreferredSimulcastLayer: [
     { consumerId: string; spatialLayer: number; temporalLayer?: number },
     { success: true }
   ];
+  restartIce: [{ transportId: string }, { iceParameters: IceParameters }];
   declareRtpCapabilities: [
     { rtpCapabilities: RtpCapabilities },
     { success: true }
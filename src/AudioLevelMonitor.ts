@@ -0,0 +1,107 @@
+import mitt, { Emitter } from "mitt";
+
+export type AudioLevelEvents = {
+  // volume of each stream by key, between 0 and 1
+  levels: Record<string, number>;
+};
+
+type Analysis = {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array;
+};
+
+/**
+ * AudioLevelMonitor measures the volume of audio streams locally with WebAudio
+ */
+export default class AudioLevelMonitor {
+  private context?: AudioContext;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private interval: number;
+  private analyses: Map<string, Analysis> = new Map();
+  public emitter: Emitter<AudioLevelEvents>;
+
+  /**
+   * @param interval time in ms between measurements
+   */
+  constructor(interval: number) {
+    this.interval = interval;
+    this.emitter = mitt();
+  }
+
+  /**
+   * returns whether this environment is able to measure audio levels
+   */
+  static get supported(): boolean {
+    return typeof window !== "undefined" && "AudioContext" in window;
+  }
+
+  /**
+   * sync measures exactly the given streams, by key
+   */
+  sync(streams: Record<string, MediaStream>) {
+    if (!AudioLevelMonitor.supported) return;
+
+    Array.from(this.analyses.entries()).forEach(([key, { stream }]) => {
+      if (streams[key] !== stream) this.remove(key);
+    });
+    Object.entries(streams).forEach(([key, stream]) => {
+      if (!this.analyses.has(key)) this.add(key, stream);
+    });
+  }
+
+  private add(key: string, stream: MediaStream) {
+    if (!this.context) this.context = new AudioContext();
+    const source = this.context.createMediaStreamSource(stream);
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+    this.analyses.set(key, {
+      stream,
+      source,
+      analyser,
+      samples: new Float32Array(analyser.fftSize),
+    });
+  }
+
+  private remove(key: string) {
+    const analysis = this.analyses.get(key);
+    if (!analysis) return;
+    analysis.source.disconnect();
+    this.analyses.delete(key);
+  }
+
+  private measure() {
+    if (!this.analyses.size) return;
+
+    const levels: Record<string, number> = {};
+    this.analyses.forEach(({ analyser, samples }, key) => {
+      analyser.getFloatTimeDomainData(samples);
+      // root mean square of the waveform
+      let sum = 0;
+      samples.forEach((sample) => (sum += sample * sample));
+      levels[key] = Math.min(1, Math.sqrt(sum / samples.length));
+    });
+    this.emitter.emit("levels", levels);
+  }
+
+  /**
+   * starts the monitor
+   */
+  start() {
+    if (this.timer || !AudioLevelMonitor.supported) return;
+    this.timer = setInterval(() => this.measure(), this.interval);
+  }
+
+  /**
+   * stops the monitor and releases all streams
+   */
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    Array.from(this.analyses.keys()).forEach((key) => this.remove(key));
+    void this.context?.close();
+    this.context = undefined;
+  }
+}
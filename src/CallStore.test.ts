@@ -0,0 +1,148 @@
+import { waitFor } from "@testing-library/react";
+import { advanceTo } from "jest-date-mock";
+import { ProducerLabel, Role } from "./API";
+import CallStore from "./CallStore";
+import Client from "./Client";
+import { clientFactory } from "./testFactories";
+import MediaDevices from "./__mocks__/MediaDevices";
+import MediaStream from "./__mocks__/MediaStream";
+
+jest.mock("./Client");
+jest.mock("mediasoup-client");
+Object.defineProperty(navigator, "mediaDevices", {
+  writable: true,
+  value: MediaDevices,
+});
+
+Object.defineProperty(window, "MediaStream", {
+  writable: true,
+  value: MediaStream,
+});
+
+const call = {
+  id: "2",
+  url: "url",
+  token: "T1",
+};
+
+advanceTo(new Date("2021-11-23T12:34:56.789Z"));
+
+describe("CallStore", () => {
+  let client: ReturnType<typeof clientFactory>;
+  let store: CallStore;
+  beforeEach(() => {
+    client = clientFactory();
+    (Client.connect as jest.Mock).mockClear();
+    (Client.connect as jest.Mock).mockReturnValue(client);
+    store = new CallStore({ call, options: { resumeGracePeriod: 100 } });
+  });
+
+  afterEach(() => store.disconnect());
+
+  it("notifies subscribers of new snapshots", async () => {
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+    const initial = store.getSnapshot();
+    expect(initial.clientStatus).toBe("initializing");
+
+    await store.connect();
+
+    expect(listener).toHaveBeenCalled();
+    expect(store.getSnapshot()).not.toBe(initial);
+    expect(store.getSnapshot().clientStatus).toBe("connected");
+    // snapshots are not changed in place
+    expect(initial.clientStatus).toBe("initializing");
+
+    unsubscribe();
+    listener.mockClear();
+    await store.disconnect();
+    expect(store.getSnapshot().clientStatus).toBe("disconnected");
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("waits for a call before connecting", async () => {
+    store = new CallStore();
+    await store.connect();
+    expect(Client.connect).not.toHaveBeenCalled();
+
+    store.setCall(call);
+    await waitFor(() =>
+      expect(store.getSnapshot().clientStatus).toBe("connected")
+    );
+    expect(Client.connect).toHaveBeenCalledTimes(1);
+  });
+
+  it("rebuilds the client and produces local media again", async () => {
+    await store.connect();
+    const track = (
+      await navigator.mediaDevices.getUserMedia({ audio: true })
+    ).getAudioTracks()[0];
+    await store.produceTrack(track, ProducerLabel.audio);
+    const first = store.client;
+
+    client.sendServerEvent("disconnect", "transport close");
+
+    await waitFor(() => expect(Client.connect).toHaveBeenCalledTimes(2));
+    await waitFor(() =>
+      expect(store.getSnapshot().clientStatus).toBe("connected")
+    );
+    expect(store.client).not.toBe(first);
+    await waitFor(() =>
+      expect(
+        store.getSnapshot().localProducers[ProducerLabel.audio]?.stream
+      ).toBeTruthy()
+    );
+    expect(
+      store
+        .getSnapshot()
+        .localProducers[ProducerLabel.audio]?.stream.getAudioTracks()
+    ).toEqual([track]);
+  });
+
+  it("pauses local media while disconnected", async () => {
+    await store.connect();
+    const track = (
+      await navigator.mediaDevices.getUserMedia({ audio: true })
+    ).getAudioTracks()[0];
+    await store.produceTrack(track, ProducerLabel.audio);
+
+    (Client.connect as jest.Mock).mockRejectedValueOnce(
+      new Error("unreachable")
+    );
+    client.sendServerEvent("disconnect", "transport close");
+    await waitFor(() =>
+      expect(store.getSnapshot().clientStatus).toBe("errored")
+    );
+    expect(store.getSnapshot().error?.message).toBe("unreachable");
+
+    await store.pauseProducer(ProducerLabel.audio);
+    expect(track.enabled).toBe(false);
+    expect(
+      store.getSnapshot().localProducers[ProducerLabel.audio]?.paused
+    ).toBe(true);
+
+    await store.connect();
+    expect(store.getSnapshot().clientStatus).toBe("connected");
+    expect(Client.connect).toHaveBeenCalledTimes(3);
+  });
+
+  it("keeps messages across rebuilt clients", async () => {
+    await store.connect();
+    client.sendServerEvent("textMessage", {
+      from: { id: "2", role: Role.visitParticipant },
+      contents: "hello",
+      id: "message-2",
+      timestamp: "2021-11-23T12:34:56.789Z",
+    });
+
+    client.sendServerEvent("disconnect", "transport close");
+    await waitFor(() => expect(Client.connect).toHaveBeenCalledTimes(2));
+    await waitFor(() =>
+      expect(store.getSnapshot().clientStatus).toBe("connected")
+    );
+
+    expect(store.getSnapshot().messages.map((m) => m.id)).toEqual([
+      "message-2",
+    ]);
+  });
+});
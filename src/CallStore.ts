@@ -0,0 +1,698 @@
+import mitt, { Emitter } from "mitt";
+import {
+  AuditEntry,
+  CallStatus,
+  DisconnectReason,
+  MessageRecipient,
+  ProducerLabel,
+  Role,
+  Stage,
+  User,
+  WaitingEntrant,
+} from "./API";
+import CallTimeline from "./CallTimeline";
+import { TimerState, TimerWarning } from "./CallTimers";
+import { CallAction } from "./capabilities";
+import ChatLog, { Message } from "./ChatLog";
+import { AdmissionDeniedError, ConnectAbortedError } from "./errors";
+import MediaDeviceManager, {
+  labelDeviceKinds,
+  SelectedDevices,
+} from "./MediaDeviceManager";
+import PreCallCheck, {
+  PreCallCheckOptions,
+  PreCallReport,
+} from "./PreCallCheck";
+import {
+  ProducerPreset,
+  producerPresets,
+  ProducerProfile,
+  ProducerProfiles,
+  resolveProducerProfiles,
+} from "./producerProfiles";
+import RoomClient, {
+  BlockedMessage,
+  CallStatusChange,
+  ConnectOptions,
+  Peer,
+  RaisedHand,
+  TransportStates,
+} from "./RoomClient";
+import { CallStats } from "./StatsCollector";
+
+export enum ClientStatus {
+  initializing = "initializing",
+  // in the waiting room, until a monitor or host admits us
+  waiting = "waiting",
+  errored = "errored",
+  connected = "connected",
+  reconnecting = "reconnecting",
+  disconnected = "disconnected",
+}
+
+export type CallDetails = {
+  id: string;
+  url: string;
+  token: string;
+};
+
+export type LocalProducers = Partial<
+  Record<ProducerLabel, { stream: MediaStream; paused: boolean }>
+>;
+
+/**
+ * CallSnapshot is the observable state of a call. A new snapshot is made
+ * whenever anything in it changes, so snapshots may be compared by reference.
+ */
+export type CallSnapshot = {
+  clientStatus: ClientStatus;
+  // our place in the waiting room queue, starting at 1
+  waitingPosition?: number;
+  callStatus?: CallStatus;
+  // the call status before the latest transition
+  previousCallStatus?: CallStatus;
+  error?: Error;
+  disconnectReason?: DisconnectReason;
+  transportStates?: TransportStates;
+  user?: Peer;
+  peers: Record<string, Peer>;
+  monitors: Record<string, Peer>;
+  localProducers: LocalProducers;
+  activeSpeakerPeerId?: string;
+  messages: Message[];
+  roomLocked: boolean;
+  // raised hands, oldest first
+  handQueue: RaisedHand[];
+  stage: Stage;
+  // entrants waiting to be admitted, for monitors and hosts
+  entrants: WaitingEntrant[];
+  // moderation actions taken since joining, for monitors
+  auditTrail: AuditEntry[];
+  devices: MediaDeviceInfo[];
+  selectedDevices: SelectedDevices;
+  // the latest pre-call check, see runPreCallCheck
+  preCallReport?: PreCallReport;
+};
+
+// announcements that are not part of the snapshot
+export type CallStoreEvents = {
+  textMessage: Message;
+  messageBlocked: BlockedMessage;
+  warning: { from: User; message: string };
+  timer: { name: string; msRemaining: number; msElapsed: number };
+  timerWarning: TimerWarning;
+  statusChange: CallStatusChange;
+  // updated several times a second, so kept apart from the snapshot; see
+  // watchAudioLevels and watchTimers
+  audioLevels: Record<string, number>;
+  timers: Record<string, TimerState>;
+  // failures of work in the background, e.g. with devices, which don't end
+  // the call
+  error: Error;
+};
+
+// a handler watching stats, and how to stop watching the current client
+type StatsWatcher = {
+  handler: (stats: CallStats) => void;
+  stop?: () => void;
+};
+
+export type CallStoreOptions = {
+  call?: CallDetails;
+  options?: ConnectOptions;
+  deviceManager?: MediaDeviceManager;
+};
+
+function localTrack(
+  { stream }: { stream: MediaStream },
+  label: ProducerLabel
+): MediaStreamTrack {
+  return label === ProducerLabel.audio
+    ? stream.getAudioTracks()[0]
+    : stream.getVideoTracks()[0];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+// deepEqual compares plain objects and arrays by value, and anything else,
+// such as media streams, by identity
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b))
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * reuseUnchanged keeps the previous value of every entry that did not change,
+ * and the previous record when none did, so that selectors of a snapshot only
+ * see new references for what actually changed
+ */
+function reuseUnchanged<T>(
+  previous: Partial<Record<string, T>>,
+  next: Partial<Record<string, T>>
+): Partial<Record<string, T>> {
+  let changed = Object.keys(previous).length !== Object.keys(next).length;
+  const merged = Object.fromEntries(
+    Object.entries(next).map(([key, value]) => {
+      if (key in previous && deepEqual(previous[key], value))
+        return [key, previous[key]];
+      changed = true;
+      return [key, value];
+    })
+  );
+  return changed ? merged : previous;
+}
+
+/**
+ * CallStore keeps the state of a call across the RoomClients it is made of,
+ * independently of any UI framework. It rebuilds the client when the
+ * connection is lost, producing the same local media again, and keeps the
+ * message log and timeline of the whole call.
+ *
+ * Observe it with subscribe and getSnapshot, e.g. with useSyncExternalStore.
+ */
+export default class CallStore {
+  private call?: CallDetails;
+  private options?: ConnectOptions;
+  private roomClient?: RoomClient;
+  private snapshot: CallSnapshot;
+  private listeners: Set<() => void> = new Set();
+  private audioLevels: Record<string, number> = {};
+  private timers: Record<string, TimerState> = {};
+  private statsWatchers: Set<StatsWatcher> = new Set();
+  // whether a client should be connected
+  private active = false;
+  private connecting = false;
+  // aborts the client being connected, e.g. while waiting to be admitted
+  private connectAbort?: AbortController;
+  private fruxEnabled = false;
+  private chat = new ChatLog();
+  // profiles changed during the call outlive a rebuilt client
+  private producerProfileOverrides: Partial<ProducerProfiles> = {};
+  // the timeline covers the whole call, across rebuilt clients
+  public readonly timeline = new CallTimeline();
+  public readonly deviceManager: MediaDeviceManager;
+  public emitter: Emitter<CallStoreEvents>;
+
+  constructor({ call, options, deviceManager }: CallStoreOptions = {}) {
+    this.call = call;
+    this.options = options;
+    this.deviceManager = deviceManager || new MediaDeviceManager();
+    this.emitter = mitt();
+    this.snapshot = {
+      clientStatus: ClientStatus.initializing,
+      peers: {},
+      monitors: {},
+      localProducers: {},
+      messages: this.chat.messages,
+      roomLocked: false,
+      handQueue: [],
+      stage: { onStage: [], invited: [] },
+      entrants: [],
+      auditTrail: [],
+      devices: this.deviceManager.devices,
+      selectedDevices: this.deviceManager.selected,
+    };
+
+    this.chat.emitter.on("messages", (messages) => this.update({ messages }));
+    this.deviceManager.emitter.on("devices", (devices) =>
+      this.update({ devices })
+    );
+    this.deviceManager.emitter.on("selected", (selectedDevices) =>
+      this.update({ selectedDevices })
+    );
+    this.deviceManager.emitter.on("error", (error) =>
+      this.emitter.emit("error", error)
+    );
+  }
+
+  /**
+   * subscribe calls listener whenever the snapshot changes, until the returned
+   * function is called
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): CallSnapshot => this.snapshot;
+
+  /**
+   * watchAudioLevels calls back with the audio level of every peer, now and
+   * whenever they change. It returns a function to stop watching.
+   */
+  watchAudioLevels = (
+    handler: (audioLevels: Record<string, number>) => void
+  ): (() => void) => {
+    handler(this.audioLevels);
+    this.emitter.on("audioLevels", handler);
+    return () => this.emitter.off("audioLevels", handler);
+  };
+
+  /**
+   * watchTimers calls back with every call timer, now and as they count down.
+   * It returns a function to stop watching.
+   */
+  watchTimers = (
+    handler: (timers: Record<string, TimerState>) => void
+  ): (() => void) => {
+    handler(this.timers);
+    this.emitter.on("timers", handler);
+    return () => this.emitter.off("timers", handler);
+  };
+
+  /**
+   * watchStats calls back with the stats of each client as they are
+   * collected, for as long as the handler is watching. It returns a function
+   * to stop watching.
+   */
+  watchStats = (handler: (stats: CallStats) => void): (() => void) => {
+    const watcher: StatsWatcher = {
+      handler,
+      stop: this.roomClient?.watchStats(handler),
+    };
+    this.statsWatchers.add(watcher);
+    return () => {
+      watcher.stop?.();
+      this.statsWatchers.delete(watcher);
+    };
+  };
+
+  private update(changes: Partial<CallSnapshot>) {
+    const unchanged = (Object.keys(changes) as (keyof CallSnapshot)[]).every(
+      (key) => Object.is(this.snapshot[key], changes[key])
+    );
+    if (unchanged) return;
+
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * returns the current client, missing while disconnected
+   */
+  public get client(): RoomClient | undefined {
+    return this.roomClient;
+  }
+
+  /**
+   * requireClient returns the current client, or throws when disconnected
+   */
+  requireClient(): RoomClient {
+    if (!this.roomClient) throw new Error("Not connected");
+    return this.roomClient;
+  }
+
+  /**
+   * setCall changes the call to connect to. A connected client stays in its
+   * call; a store waiting for a call connects to it.
+   */
+  setCall(call: CallDetails | undefined) {
+    this.call = call;
+    if (this.active) void this.connect();
+  }
+
+  /**
+   * setOptions changes the options of clients connected from now on
+   */
+  setOptions(options: ConnectOptions | undefined) {
+    this.options = options;
+  }
+
+  /**
+   * connect creates a client for the call, producing any local media kept
+   * from a previous client. It resolves once connected, or on failure, which
+   * is reported as ClientStatus.errored.
+   */
+  async connect() {
+    this.active = true;
+    if (this.roomClient || this.connecting || !this.call) return;
+
+    this.connecting = true;
+    this.connectAbort = new AbortController();
+    this.update({ disconnectReason: undefined });
+    try {
+      const client = await RoomClient.connect(this.call, {
+        timeline: this.timeline,
+        chat: this.chat,
+        ...this.options,
+        producerProfiles: {
+          ...resolveProducerProfiles(this.options?.producerProfiles),
+          ...this.producerProfileOverrides,
+        },
+        onWaiting: (waitingPosition) => {
+          this.update({ clientStatus: ClientStatus.waiting, waitingPosition });
+          this.options?.onWaiting?.(waitingPosition);
+        },
+        signal: this.connectAbort.signal,
+      });
+
+      // disconnected while connecting
+      if (!this.active) {
+        void client.close();
+        return;
+      }
+
+      this.roomClient = client;
+      this.update({
+        clientStatus: ClientStatus.connected,
+        waitingPosition: undefined,
+      });
+      this.bindClient(client);
+      if (this.fruxEnabled) client.enableFrux();
+
+      await this.produceInherited(client);
+    } catch (error) {
+      // disconnect already reported it
+      if (error instanceof ConnectAbortedError) return;
+      if (error instanceof AdmissionDeniedError) {
+        this.active = false;
+        this.update({
+          clientStatus: ClientStatus.disconnected,
+          disconnectReason: DisconnectReason.denied,
+          waitingPosition: undefined,
+          error,
+        });
+        return;
+      }
+      this.update({
+        clientStatus: ClientStatus.errored,
+        waitingPosition: undefined,
+        ...(error instanceof Error ? { error } : {}),
+      });
+    } finally {
+      this.connecting = false;
+      this.connectAbort = undefined;
+    }
+  }
+
+  // produces the local media kept from a previous client, dropping what the
+  // new one can't produce, e.g. after being taken off the stage
+  private async produceInherited(client: RoomClient) {
+    const producers = this.snapshot.localProducers;
+    for (const label of Object.values(ProducerLabel)) {
+      const producer = producers[label];
+      if (!producer || this.roomClient !== client) continue;
+      try {
+        await client.produce(localTrack(producer, label), label);
+      } catch (e) {
+        const localProducers = { ...this.snapshot.localProducers };
+        delete localProducers[label];
+        this.update({ localProducers });
+        this.timeline.record({
+          type: "producerDropped",
+          label,
+          reason: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+  }
+
+  private setTimers(timers: Record<string, TimerState>) {
+    this.timers = timers;
+    this.emitter.emit("timers", timers);
+  }
+
+  // moves the stats watchers to a new client, or off a closed one
+  private watchClientStats(client?: RoomClient) {
+    this.statsWatchers.forEach((watcher) => {
+      watcher.stop?.();
+      watcher.stop = client?.watchStats(watcher.handler);
+    });
+  }
+
+  private bindClient(client: RoomClient) {
+    this.watchClientStats(client);
+    client.on("peers", (p) => {
+      const entries = Object.entries(p);
+      this.update({
+        peers: reuseUnchanged(
+          this.snapshot.peers,
+          Object.fromEntries(
+            entries.filter(([_, { user }]) => user.role !== Role.monitor)
+          )
+        ) as Record<string, Peer>,
+        monitors: reuseUnchanged(
+          this.snapshot.monitors,
+          Object.fromEntries(
+            entries.filter(([_, { user }]) => user.role === Role.monitor)
+          )
+        ) as Record<string, Peer>,
+      });
+    });
+    client.on("self", (user) =>
+      this.update({
+        user: deepEqual(this.snapshot.user, user) ? this.snapshot.user : user,
+      })
+    );
+    client.on("statusChange", ({ status }) => {
+      // rebuilt clients announce the status again, which is no transition
+      const previous = this.snapshot.callStatus;
+      if (status === previous) return;
+      this.update({ callStatus: status, previousCallStatus: previous });
+      this.emitter.emit("statusChange", { previous, status });
+    });
+    client.on("locked", (roomLocked) => this.update({ roomLocked }));
+    client.on("stage", (stage) => this.update({ stage }));
+    client.on("entrants", (entrants) => this.update({ entrants }));
+    client.on("handQueue", (handQueue) => this.update({ handQueue }));
+    client.on("timers", (timers) => this.setTimers(timers));
+    client.on("auditEntry", (entry) =>
+      this.update({ auditTrail: [...this.snapshot.auditTrail, entry] })
+    );
+    client.on("audioLevels", (audioLevels) => {
+      this.audioLevels = audioLevels;
+      this.emitter.emit("audioLevels", audioLevels);
+    });
+    client.on("activeSpeaker", (activeSpeakerPeerId) =>
+      this.update({ activeSpeakerPeerId })
+    );
+    client.on("localProducers", (localProducers) =>
+      this.update({
+        localProducers: reuseUnchanged(
+          this.snapshot.localProducers,
+          localProducers
+        ),
+      })
+    );
+    client.on("transportStates", (transportStates) =>
+      this.update({ transportStates })
+    );
+    this.update({
+      handQueue: client.handQueue,
+      transportStates: client.transportStates,
+    });
+    this.setTimers(client.timers);
+
+    client.on("textMessage", (m) => this.emitter.emit("textMessage", m));
+    client.on("messageBlocked", (m) => this.emitter.emit("messageBlocked", m));
+    client.on("warning", (w) => this.emitter.emit("warning", w));
+    client.on("timer", (t) => this.emitter.emit("timer", t));
+    client.on("timerWarning", (w) => this.emitter.emit("timerWarning", w));
+    client.on("error", (e) => this.emitter.emit("error", e));
+
+    // Request most recent state
+    client.emitState();
+
+    // While the session is being resumed, keep the client and its media
+    client.on("reconnecting", () =>
+      this.update({ clientStatus: ClientStatus.reconnecting })
+    );
+    client.on("reconnected", () =>
+      this.update({ clientStatus: ClientStatus.connected })
+    );
+
+    // When we disconnect, rebuild the client unless we were sent away
+    client.on("disconnect", (disconnectReason: DisconnectReason) => {
+      client.close();
+      if (this.roomClient === client) {
+        this.roomClient = undefined;
+        this.watchClientStats();
+      }
+      this.update({
+        clientStatus: ClientStatus.disconnected,
+        disconnectReason,
+      });
+      if (disconnectReason === DisconnectReason.error) void this.connect();
+      else this.active = false;
+    });
+  }
+
+  /**
+   * disconnect permanently closes the current client and stops user media
+   */
+  async disconnect() {
+    this.active = false;
+    if (this.connectAbort) {
+      // leave the waiting room rather than be admitted later
+      this.connectAbort.abort();
+      this.update({
+        clientStatus: ClientStatus.disconnected,
+        waitingPosition: undefined,
+      });
+    }
+    const client = this.roomClient;
+    if (!client) return;
+    this.roomClient = undefined;
+    this.watchClientStats();
+    this.update({ clientStatus: ClientStatus.disconnected });
+    await client.close(true); // Also stop user media grab
+  }
+
+  can(action: CallAction): boolean {
+    return !!this.roomClient && this.roomClient.can(action);
+  }
+
+  enableFrux() {
+    this.fruxEnabled = true;
+    this.roomClient?.enableFrux();
+  }
+
+  async produceTrack(track: MediaStreamTrack, label: ProducerLabel) {
+    await this.requireClient().produce(track, label);
+  }
+
+  async produceDevice(label: ProducerLabel.audio | ProducerLabel.video) {
+    const kind = labelDeviceKinds[label];
+    if (!kind) throw new Error(`No device captures ${label}`);
+    const track = await this.deviceManager.getTrack(kind);
+    await this.produceTrack(track, label);
+  }
+
+  async closeProducer(label: ProducerLabel) {
+    await this.roomClient?.closeProducer(label);
+  }
+
+  async setProducerProfile(
+    label: ProducerLabel,
+    profile: ProducerProfile | ProducerPreset
+  ) {
+    this.producerProfileOverrides = {
+      ...this.producerProfileOverrides,
+      [label]:
+        typeof profile === "string" ? producerPresets[profile][label] : profile,
+    };
+    if (this.roomClient)
+      await this.roomClient.setProducerProfile(label, profile);
+  }
+
+  // While disconnected, local producers are paused and resumed in place, and
+  // the changes applied when they are produced again.
+  async pauseProducer(label: ProducerLabel) {
+    if (this.roomClient) {
+      await this.roomClient.pauseProducer(label);
+    } else {
+      this.setLocalPaused(label, true);
+    }
+  }
+
+  async resumeProducer(label: ProducerLabel) {
+    if (this.roomClient) {
+      await this.roomClient.resumeProducer(label);
+    } else {
+      this.setLocalPaused(label, false);
+    }
+  }
+
+  private setLocalPaused(label: ProducerLabel, paused: boolean) {
+    const producer = this.snapshot.localProducers[label];
+    if (!producer) throw new Error("No such producer");
+
+    localTrack(producer, label).enabled = !paused;
+    this.update({
+      localProducers: {
+        ...this.snapshot.localProducers,
+        [label]: { stream: producer.stream, paused },
+      },
+    });
+  }
+
+  /**
+   * replaceTrack swaps the track of a local producer. While disconnected,
+   * the new track is kept for when the producer is restored.
+   */
+  async replaceTrack(label: ProducerLabel, track: MediaStreamTrack) {
+    if (this.roomClient) {
+      await this.roomClient.replaceTrack(label, track);
+      return;
+    }
+
+    const producer = this.snapshot.localProducers[label];
+    if (!producer) throw new Error("No such producer");
+
+    track.enabled = !producer.paused;
+    const stream = new MediaStream();
+    stream.addTrack(track);
+    this.update({
+      localProducers: {
+        ...this.snapshot.localProducers,
+        [label]: { stream, paused: producer.paused },
+      },
+    });
+  }
+
+  /**
+   * selectDevice switches any live producer the device captures in place
+   */
+  async selectDevice(kind: MediaDeviceKind, deviceId: string) {
+    this.deviceManager.select(kind, deviceId);
+
+    const label = (Object.keys(labelDeviceKinds) as ProducerLabel[]).find(
+      (l) => labelDeviceKinds[l] === kind
+    );
+    if (!label || kind === "audiooutput") return;
+    const producer = this.snapshot.localProducers[label];
+    if (!producer) return;
+
+    const previous = producer.stream.getTracks()[0];
+    const track = await this.deviceManager.getTrack(kind);
+    await this.replaceTrack(label, track);
+    previous?.stop();
+  }
+
+  /**
+   * runPreCallCheck checks devices and the network, e.g. in a lobby before
+   * joining, using the selected devices and the server of the call
+   */
+  async runPreCallCheck(
+    options?: Partial<PreCallCheckOptions>
+  ): Promise<PreCallReport> {
+    // the deployment's ICE servers, unless others are given
+    const { iceServers, iceTransportPolicy } = this.options || {};
+    const preCallReport = await new PreCallCheck(
+      this.call?.url,
+      {
+        ...(iceServers ? { iceServers } : {}),
+        ...(iceTransportPolicy ? { iceTransportPolicy } : {}),
+        ...options,
+      },
+      this.deviceManager
+    ).run();
+    this.update({ preCallReport });
+    return preCallReport;
+  }
+
+  async sendMessage(contents: string, to?: MessageRecipient) {
+    await this.requireClient().sendMessage(contents, to);
+  }
+
+  async retryMessage(clientMessageId: string) {
+    await this.requireClient().retryMessage(clientMessageId);
+  }
+}
@@ -0,0 +1,53 @@
+import { advanceBy, advanceTo, clear } from "jest-date-mock";
+import { ConnectionStateQuality, DisconnectReason } from "./API";
+import CallTimeline from "./CallTimeline";
+
+describe("CallTimeline", () => {
+  beforeEach(() => advanceTo(1000));
+  afterEach(() => clear());
+
+  it("returns events in order, filtered by type and time", () => {
+    const timeline = new CallTimeline();
+    timeline.record({ type: "ping", ms: 40 });
+    advanceBy(10);
+    timeline.record({
+      type: "quality",
+      quality: ConnectionStateQuality.good,
+      ping: 40,
+    });
+    advanceBy(10);
+    timeline.record({ type: "ping", ms: 50 });
+
+    expect(timeline.entries().map((e) => e.type)).toEqual([
+      "ping",
+      "quality",
+      "ping",
+    ]);
+    expect(timeline.entries({ types: ["ping"] })).toEqual([
+      { type: "ping", ms: 40, time: 1000 },
+      { type: "ping", ms: 50, time: 1020 },
+    ]);
+    expect(timeline.entries({ since: 1010 })).toHaveLength(2);
+  });
+
+  it("bounds each type of event separately", () => {
+    const timeline = new CallTimeline({ ping: 2 });
+    timeline.record({ type: "disconnect", reason: DisconnectReason.error });
+    [10, 20, 30].forEach((ms) => timeline.record({ type: "ping", ms }));
+
+    expect(timeline.entries()).toEqual([
+      { type: "disconnect", reason: DisconnectReason.error, time: 1000 },
+      { type: "ping", ms: 20, time: 1000 },
+      { type: "ping", ms: 30, time: 1000 },
+    ]);
+  });
+
+  it("exports as JSON", () => {
+    const timeline = new CallTimeline();
+    timeline.record({ type: "reconnected" });
+    expect(JSON.parse(timeline.export())).toEqual({
+      startedAt: 1000,
+      entries: [{ type: "reconnected", time: 1000 }],
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  CallStatus,
+  ConnectionStateQuality,
+  DisconnectReason,
+  ProducerLabel,
+} from "./API";
+
+export type TimelineEvent =
+  | { type: "ping"; ms: number }
+  | { type: "quality"; quality: ConnectionStateQuality; ping: number }
+  | { type: "frux"; badConnection: boolean; pausedVideo: boolean }
+  | { type: "reconnecting"; reason: string }
+  | { type: "reconnected" }
+  | { type: "disconnect"; reason: DisconnectReason }
+  | { type: "callStatus"; previous?: CallStatus; status: CallStatus }
+  | { type: "producerDropped"; label: ProducerLabel; reason: string };
+
+export type TimelineEntry = TimelineEvent & { time: number };
+
+export type TimelineEventType = TimelineEvent["type"];
+
+export type TimelineLimits = Record<TimelineEventType, number>;
+
+// pings are sampled frequently, so they are kept separately from the rarer
+// events to avoid pushing them out
+const defaultLimits: TimelineLimits = {
+  ping: 1200,
+  quality: 500,
+  frux: 500,
+  reconnecting: 100,
+  reconnected: 100,
+  disconnect: 100,
+  callStatus: 100,
+  producerDropped: 100,
+};
+
+/**
+ * CallTimeline keeps a bounded history of how a call went, for diagnosis
+ * after the fact. Each type of event is bounded separately; the oldest are
+ * dropped first.
+ */
+export default class CallTimeline {
+  private limits: TimelineLimits;
+  private events: Map<TimelineEventType, TimelineEntry[]> = new Map();
+  public readonly startedAt: number;
+
+  /**
+   * @param limits the maximum number of events kept by type
+   */
+  constructor(limits: Partial<TimelineLimits> = {}) {
+    this.limits = { ...defaultLimits, ...limits };
+    this.startedAt = new Date().getTime();
+  }
+
+  record(event: TimelineEvent) {
+    const entries = this.events.get(event.type) || [];
+    entries.push({ ...event, time: new Date().getTime() });
+    if (entries.length > this.limits[event.type]) entries.shift();
+    this.events.set(event.type, entries);
+  }
+
+  /**
+   * entries returns recorded events in chronological order, optionally
+   * filtered by type and time
+   */
+  entries({
+    types,
+    since,
+  }: { types?: TimelineEventType[]; since?: number } = {}): TimelineEntry[] {
+    return Array.from(this.events.entries())
+      .filter(([type]) => !types || types.includes(type))
+      .flatMap(([_, entries]) => entries)
+      .filter((entry) => since === undefined || entry.time >= since)
+      .sort((a, b) => a.time - b.time);
+  }
+
+  toJSON(): { startedAt: number; entries: TimelineEntry[] } {
+    return { startedAt: this.startedAt, entries: this.entries() };
+  }
+
+  /**
+   * export serializes the whole timeline as JSON
+   */
+  export(): string {
+    return JSON.stringify(this);
+  }
+}
@@ -0,0 +1,83 @@
+import { advanceBy, advanceTo, clear } from "jest-date-mock";
+import CallTimers from "./CallTimers";
+
+describe("CallTimers", () => {
+  let timers: CallTimers;
+  let onWarning: jest.Mock;
+  let onExpired: jest.Mock;
+
+  beforeEach(() => {
+    advanceTo(0);
+    timers = new CallTimers({ warnings: [60000, 10000] });
+    onWarning = jest.fn();
+    onExpired = jest.fn();
+    timers.emitter.on("warning", onWarning);
+    timers.emitter.on("expired", onExpired);
+  });
+
+  afterEach(() => {
+    timers.stop();
+    clear();
+  });
+
+  it("counts down between updates", () => {
+    timers.update("maxDuration", { msRemaining: 120000, msElapsed: 0 });
+    advanceBy(30000);
+    expect(timers.timers).toEqual({
+      maxDuration: {
+        name: "maxDuration",
+        msRemaining: 90000,
+        msElapsed: 30000,
+        expired: false,
+      },
+    });
+
+    // the server is authoritative
+    timers.update("maxDuration", { msRemaining: 95000, msElapsed: 25000 });
+    expect(timers.timers.maxDuration.msRemaining).toBe(95000);
+  });
+
+  it("warns once per threshold", () => {
+    timers.update("maxDuration", { msRemaining: 70000, msElapsed: 0 });
+    advanceBy(15000);
+    timers.tick();
+    timers.tick();
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledWith({
+      name: "maxDuration",
+      threshold: 60000,
+      msRemaining: 55000,
+    });
+
+    advanceBy(50000);
+    timers.tick();
+    expect(onWarning).toHaveBeenLastCalledWith({
+      name: "maxDuration",
+      threshold: 10000,
+      msRemaining: 5000,
+    });
+
+    advanceBy(5000);
+    timers.tick();
+    timers.tick();
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(onExpired).toHaveBeenCalledWith("maxDuration");
+    expect(timers.timers.maxDuration.expired).toBe(true);
+  });
+
+  it("announces only the nearest of thresholds crossed at once", () => {
+    timers.update("maxDuration", { msRemaining: 5000, msElapsed: 0 });
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ threshold: 10000 })
+    );
+  });
+
+  it("warns again when extended", () => {
+    timers.update("maxDuration", { msRemaining: 50000, msElapsed: 0 });
+    timers.update("maxDuration", { msRemaining: 120000, msElapsed: 0 });
+    advanceBy(70000);
+    timers.tick();
+    expect(onWarning).toHaveBeenCalledTimes(2);
+  });
+});
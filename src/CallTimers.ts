@@ -0,0 +1,153 @@
+import mitt, { Emitter } from "mitt";
+import { PublishedTimer } from "./API";
+
+export type TimerState = {
+  name: string;
+  msRemaining: number;
+  msElapsed: number;
+  expired: boolean;
+};
+
+export type TimerWarning = {
+  name: string;
+  // the threshold that was crossed, in ms before expiry
+  threshold: number;
+  msRemaining: number;
+};
+
+export type TimerEvents = {
+  timers: Record<string, TimerState>;
+  warning: TimerWarning;
+  expired: string;
+};
+
+export type CallTimersOptions = {
+  // ms before expiry to warn at
+  warnings: number[];
+  // time in ms between local updates
+  interval: number;
+};
+
+export const defaultCallTimersOptions: CallTimersOptions = {
+  warnings: [5 * 60 * 1000, 60 * 1000],
+  interval: 1000,
+};
+
+type Tracked = PublishedTimer & {
+  receivedAt: number;
+  warned: Set<number>;
+  expired: boolean;
+};
+
+/**
+ * CallTimers tracks every named timer of a call, counting down locally between
+ * updates from the server, and warns as each nears expiry.
+ */
+export default class CallTimers {
+  private options: CallTimersOptions;
+  private tracked: Map<string, Tracked> = new Map();
+  private timer: ReturnType<typeof setInterval> | undefined;
+  public emitter: Emitter<TimerEvents>;
+
+  constructor(options: Partial<CallTimersOptions> = {}) {
+    this.options = { ...defaultCallTimersOptions, ...options };
+    this.emitter = mitt();
+  }
+
+  /**
+   * returns every timer as of now
+   */
+  public get timers(): Record<string, TimerState> {
+    const now = new Date().getTime();
+    return Object.fromEntries(
+      Array.from(this.tracked.entries()).map(([name, tracked]) => [
+        name,
+        this.project(name, tracked, now),
+      ])
+    );
+  }
+
+  private project(name: string, tracked: Tracked, now: number): TimerState {
+    const passed = Math.max(0, now - tracked.receivedAt);
+    const msRemaining = Math.max(0, tracked.msRemaining - passed);
+    return {
+      name,
+      msRemaining,
+      msElapsed: tracked.msElapsed + passed,
+      expired: msRemaining === 0,
+    };
+  }
+
+  /**
+   * update records the latest values of a timer from the server, and starts
+   * counting down if not already
+   */
+  update(name: string, { msRemaining, msElapsed }: PublishedTimer) {
+    const previous = this.tracked.get(name);
+    // warnings may repeat if the timer was extended past them
+    const warned = new Set(
+      Array.from(previous?.warned || []).filter((t) => t >= msRemaining)
+    );
+    this.tracked.set(name, {
+      msRemaining,
+      msElapsed,
+      receivedAt: new Date().getTime(),
+      warned,
+      expired: !!previous?.expired && msRemaining === 0,
+    });
+    this.tick();
+    this.start();
+  }
+
+  /**
+   * tick emits the current timers, and any warnings and expiries that are due
+   */
+  tick() {
+    const now = new Date().getTime();
+    const timers: Record<string, TimerState> = {};
+
+    this.tracked.forEach((tracked, name) => {
+      const state = this.project(name, tracked, now);
+      timers[name] = state;
+
+      // only the nearest of several thresholds crossed at once is announced
+      const due = this.options.warnings.filter(
+        (t) => state.msRemaining <= t && !tracked.warned.has(t)
+      );
+      due.forEach((t) => tracked.warned.add(t));
+      if (due.length && !state.expired) {
+        this.emitter.emit("warning", {
+          name,
+          threshold: Math.min(...due),
+          msRemaining: state.msRemaining,
+        });
+      }
+
+      if (state.expired && !tracked.expired) {
+        tracked.expired = true;
+        this.emitter.emit("expired", name);
+      }
+    });
+
+    this.emitter.emit("timers", timers);
+  }
+
+  /**
+   * starts counting down locally
+   */
+  start() {
+    if (this.timer) return; // already started
+    this.timer = setInterval(() => {
+      if (this.tracked.size) this.tick();
+    }, this.options.interval);
+  }
+
+  /**
+   * stops counting down locally
+   */
+  stop() {
+    if (!this.timer) return; // already stopped
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
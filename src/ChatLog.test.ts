@@ -0,0 +1,141 @@
+import { advanceTo, clear } from "jest-date-mock";
+import { Role } from "./API";
+import ChatLog, { groupConversations } from "./ChatLog";
+
+const self = { id: "1", role: Role.visitParticipant };
+const other = { id: "2", role: Role.visitParticipant };
+
+describe("ChatLog", () => {
+  beforeEach(() => advanceTo(new Date("2021-11-23T12:34:56.789Z")));
+  afterEach(() => clear());
+
+  it("ignores messages it has already received", () => {
+    const chat = new ChatLog();
+    const message = {
+      id: "message-1",
+      from: other,
+      contents: "hi",
+      timestamp: "2021-11-23T12:00:00.000Z",
+    };
+
+    expect(chat.receive(message)).toMatchObject({ id: "message-1" });
+    expect(chat.receive(message)).toBeUndefined();
+    expect(chat.messages).toHaveLength(1);
+    expect(chat.lastId).toBe("message-1");
+  });
+
+  it("orders messages by server timestamp", () => {
+    const chat = new ChatLog();
+    chat.receive({
+      id: "message-2",
+      from: other,
+      contents: "second",
+      timestamp: "2021-11-23T12:00:02.000Z",
+    });
+    chat.receive({
+      id: "message-1",
+      from: other,
+      contents: "first",
+      timestamp: "2021-11-23T12:00:01.000Z",
+    });
+
+    expect(chat.messages.map((m) => m.contents)).toEqual(["first", "second"]);
+    expect(chat.lastId).toBe("message-2");
+  });
+
+  it("tracks delivery of outgoing messages", () => {
+    const chat = new ChatLog();
+    const onMessages = jest.fn();
+    chat.emitter.on("messages", onMessages);
+
+    const { clientMessageId } = chat.add(self, "hello");
+    expect(chat.messages[0].status).toBe("pending");
+    expect(chat.lastId).toBeUndefined();
+
+    chat.fail(clientMessageId as string);
+    expect(chat.messages[0].status).toBe("failed");
+
+    expect(chat.retry(clientMessageId as string)).toMatchObject({
+      status: "pending",
+    });
+    chat.confirm(clientMessageId as string, {
+      id: "message-1",
+      timestamp: "2021-11-23T12:34:57.000Z",
+    });
+    expect(chat.messages[0]).toMatchObject({
+      id: "message-1",
+      status: "sent",
+      timestamp: new Date("2021-11-23T12:34:57.000Z"),
+    });
+    expect(onMessages).toHaveBeenCalledTimes(4);
+  });
+
+  it("matches the echo of an outgoing message to it", () => {
+    const chat = new ChatLog();
+    const { clientMessageId } = chat.add(self, "hello");
+
+    expect(
+      chat.receive({
+        id: "message-1",
+        from: self,
+        contents: "hello",
+        timestamp: "2021-11-23T12:34:57.000Z",
+        clientMessageId,
+      })
+    ).toBeUndefined();
+    chat.confirm(clientMessageId as string, {
+      id: "message-1",
+      timestamp: "2021-11-23T12:34:57.000Z",
+    });
+
+    expect(chat.messages).toHaveLength(1);
+    expect(chat.messages[0]).toMatchObject({ id: "message-1", status: "sent" });
+  });
+
+  it("only matches echoes from the same sender", () => {
+    const chat = new ChatLog();
+    const { clientMessageId } = chat.add(self, "hello");
+
+    // another client picked the same id
+    expect(
+      chat.receive({
+        id: "message-1",
+        clientMessageId,
+        from: other,
+        contents: "hi",
+        timestamp: "2021-11-23T12:34:57.000Z",
+      })
+    ).toMatchObject({ id: "message-1", contents: "hi" });
+    expect(chat.messages).toMatchObject([
+      { clientMessageId, user: self, contents: "hello", status: "pending" },
+      { id: "message-1", user: other, contents: "hi", status: "sent" },
+    ]);
+
+    expect(chat.add(self, "again").clientMessageId).not.toBe(clientMessageId);
+  });
+
+  it("groups messages by conversation", () => {
+    const chat = new ChatLog();
+    chat.add(self, "to everyone");
+    chat.add(self, "to 2", { userId: "2" });
+    chat.receive({
+      id: "message-1",
+      from: other,
+      to: { userId: "1" },
+      contents: "to 1",
+      timestamp: "2021-11-23T12:34:57.000Z",
+    });
+    chat.add(self, "to monitors", { role: Role.monitor });
+
+    const conversations = groupConversations(chat.messages, self.id);
+    expect(Object.keys(conversations)).toEqual([
+      "room",
+      "user:2",
+      "role:monitor",
+    ]);
+    expect(conversations["user:2"].map((m) => m.contents)).toEqual([
+      "to 2",
+      "to 1",
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import mitt, { Emitter } from "mitt";
+import { MessageRecipient, TextMessage, User } from "./API";
+
+export type MessageStatus = "pending" | "sent" | "failed";
+
+// how moderation screened a message
+export type MessageModeration = {
+  flagged: boolean;
+  redacted: boolean;
+  reasons: string[];
+};
+
+export type Message = {
+  // assigned by the server, missing until a sent message is acknowledged
+  id?: string;
+  // assigned by the sender, to match acknowledgements and echoes
+  clientMessageId?: string;
+  user: User;
+  // missing when sent to the whole room
+  to?: MessageRecipient;
+  contents: string;
+  timestamp: Date;
+  status: MessageStatus;
+  moderation?: MessageModeration;
+};
+
+// the conversation of messages sent to the whole room
+export const ROOM_CONVERSATION = "room";
+
+/**
+ * conversationId identifies the conversation with a recipient, or with the
+ * whole room
+ */
+export function conversationId(recipient?: MessageRecipient): string {
+  if (!recipient) return ROOM_CONVERSATION;
+  return "userId" in recipient
+    ? `user:${recipient.userId}`
+    : `role:${recipient.role}`;
+}
+
+/**
+ * conversationOf identifies the conversation a message belongs to, from the
+ * point of view of a user. Direct messages are grouped by the other user,
+ * whichever way they were sent.
+ */
+export function conversationOf(message: Message, selfId: string): string {
+  if (!message.to || "role" in message.to) return conversationId(message.to);
+  return conversationId({
+    userId: message.user.id === selfId ? message.to.userId : message.user.id,
+  });
+}
+
+/**
+ * groupConversations groups messages by conversation, keeping their order
+ */
+export function groupConversations(
+  messages: Message[],
+  selfId: string
+): Record<string, Message[]> {
+  const conversations: Record<string, Message[]> = {};
+  messages.forEach((message) => {
+    const id = conversationOf(message, selfId);
+    conversations[id] = [...(conversations[id] || []), message];
+  });
+  return conversations;
+}
+
+export type ChatEvents = {
+  messages: Message[];
+};
+
+let lastClientMessageId = 0;
+
+// unique to the sender; the random part tells apart clients whose counters
+// and clocks agree
+function nextClientMessageId(): string {
+  lastClientMessageId += 1;
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${new Date()
+    .getTime()
+    .toString(36)}-${lastClientMessageId}-${random}`;
+}
+
+/**
+ * ChatLog holds the messages of a call in order, tracking the delivery of
+ * outgoing messages and ignoring messages it has already seen. It outlives
+ * reconnections, so messages received again are not duplicated.
+ */
+export default class ChatLog {
+  private _messages: Message[] = [];
+  public emitter: Emitter<ChatEvents>;
+
+  constructor() {
+    this.emitter = mitt();
+  }
+
+  /**
+   * returns all messages, oldest first
+   */
+  public get messages(): Message[] {
+    return this._messages;
+  }
+
+  /**
+   * returns the id of the newest message known to the server
+   */
+  public get lastId(): string | undefined {
+    return [...this._messages].reverse().find((m) => m.id)?.id;
+  }
+
+  /**
+   * receive adds a message from the server. Returns the message when it is
+   * new, and undefined when it was already known or is an echo of our own.
+   */
+  receive(
+    message: TextMessage,
+    moderation?: MessageModeration
+  ): Message | undefined {
+    if (this._messages.some((m) => m.id === message.id)) return;
+
+    const received: Message = {
+      id: message.id,
+      ...(message.clientMessageId
+        ? { clientMessageId: message.clientMessageId }
+        : {}),
+      user: message.from,
+      ...(message.to ? { to: message.to } : {}),
+      contents: message.contents,
+      timestamp: new Date(message.timestamp),
+      status: "sent",
+      ...(moderation ? { moderation } : {}),
+    };
+
+    const own =
+      message.clientMessageId &&
+      this._messages.find(
+        (m) =>
+          m.clientMessageId === message.clientMessageId &&
+          m.user.id === message.from.id
+      );
+    if (own) {
+      this.replace(own, received);
+      return;
+    }
+
+    this.set([...this._messages, received]);
+    return received;
+  }
+
+  /**
+   * add records an outgoing message as pending
+   */
+  add(
+    user: User,
+    contents: string,
+    to?: MessageRecipient,
+    moderation?: MessageModeration
+  ): Message {
+    const message: Message = {
+      clientMessageId: nextClientMessageId(),
+      user,
+      ...(to ? { to } : {}),
+      contents,
+      timestamp: new Date(),
+      status: "pending",
+      ...(moderation ? { moderation } : {}),
+    };
+    this.set([...this._messages, message]);
+    return message;
+  }
+
+  /**
+   * confirm marks an outgoing message as delivered
+   */
+  confirm(
+    clientMessageId: string,
+    { id, timestamp }: { id: string; timestamp: string }
+  ) {
+    this.update(clientMessageId, {
+      id,
+      timestamp: new Date(timestamp),
+      status: "sent",
+    });
+  }
+
+  /**
+   * fail marks an outgoing message as undelivered
+   */
+  fail(clientMessageId: string) {
+    this.update(clientMessageId, { status: "failed" });
+  }
+
+  /**
+   * retry marks a failed message as pending again, and returns it
+   */
+  retry(clientMessageId: string): Message | undefined {
+    const message = this.find(clientMessageId);
+    if (message?.status !== "failed") return;
+    this.update(clientMessageId, { status: "pending" });
+    return this.find(clientMessageId);
+  }
+
+  private find(clientMessageId: string): Message | undefined {
+    return this._messages.find((m) => m.clientMessageId === clientMessageId);
+  }
+
+  private update(clientMessageId: string, changes: Partial<Message>) {
+    const message = this.find(clientMessageId);
+    // the server may have echoed the message before acknowledging it
+    if (!message || message.status === "sent") return;
+    this.replace(message, { ...message, ...changes });
+  }
+
+  private replace(message: Message, replacement: Message) {
+    this.set(this._messages.map((m) => (m === message ? replacement : m)));
+  }
+
+  private set(messages: Message[]) {
+    // sorting is stable, so messages with equal timestamps keep their order
+    this._messages = messages.sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+    this.emitter.emit("messages", this._messages);
+  }
+}
@@ -0,0 +1,81 @@
+import { io } from "socket.io-client";
+import Client from "./Client";
+import { AckTimeoutError, ServerRejectedError } from "./errors";
+
+jest.mock("socket.io-client");
+
+type Ack = (response: unknown) => void;
+
+function socketFactory() {
+  return {
+    id: "self-socket-id",
+    on: jest.fn(),
+    off: jest.fn(),
+    close: jest.fn(),
+    once: jest.fn().mockImplementation((event: string, cb: () => void) => {
+      if (event === "connect") cb();
+    }),
+    emit: jest.fn(),
+  };
+}
+
+describe("Client", () => {
+  let socket: ReturnType<typeof socketFactory>;
+  beforeEach(() => {
+    socket = socketFactory();
+    (io as jest.Mock).mockReturnValue(socket);
+  });
+
+  it("resolves with the acknowledgement", async () => {
+    socket.emit.mockImplementation((_name, _data, ack: Ack) =>
+      ack({ success: true })
+    );
+    const client = await Client.connect("url");
+
+    await expect(client.emit("raiseHand", {})).resolves.toEqual({
+      success: true,
+    });
+  });
+
+  it("rejects with the event and payload when the server errors", async () => {
+    socket.emit.mockImplementation((_name, _data, ack: Ack) =>
+      ack({ error: "not allowed" })
+    );
+    const client = await Client.connect("url");
+
+    const error = await client
+      .emit("remoteAudioMute", { targetUserId: "2" })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ServerRejectedError);
+    expect(error.event).toBe("remoteAudioMute");
+    expect(error.data).toEqual({ targetUserId: "2" });
+    expect(error.reason).toBe("not allowed");
+  });
+
+  it("times out when the server never acknowledges", async () => {
+    const client = await Client.connect("url", {
+      emitPolicy: { timeout: 50 },
+    });
+
+    const error = await client.emit("terminate", {}).catch((e) => e);
+    expect(error).toBeInstanceOf(AckTimeoutError);
+    expect(error.event).toBe("terminate");
+    expect(error.attempts).toBe(1);
+  });
+
+  it("retries according to the policy of the event", async () => {
+    socket.emit
+      .mockImplementationOnce(jest.fn())
+      .mockImplementationOnce((_name, _data, ack: Ack) =>
+        ack({ success: true })
+      );
+    const client = await Client.connect("url", {
+      emitPolicies: { raiseHand: { timeout: 50, retries: 1, retryDelay: 10 } },
+    });
+
+    await expect(client.emit("raiseHand", {})).resolves.toEqual({
+      success: true,
+    });
+    expect(socket.emit).toHaveBeenCalledTimes(2);
+  });
+});
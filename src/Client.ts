@@ -1,6 +1,38 @@
 import { io as SocketClient, Socket } from "socket.io-client";
 import { ClientMessages, ServerMessages } from "./API";
-import ConnectionMonitor from "./ConnectionMonitor";
+import ConnectionMonitor, {
+  ConnectionMonitorOptions,
+} from "./ConnectionMonitor";
+import { AckTimeoutError, ServerRejectedError } from "./errors";
+
+/**
+ * EmitPolicy controls how long Client waits for the server to acknowledge a
+ * message, and how many times it resends a message that was not acknowledged.
+ * Messages rejected by the server are never retried.
+ */
+export type EmitPolicy = {
+  // time in ms to wait for an acknowledgement
+  timeout: number;
+  // number of additional attempts after the first one times out
+  retries: number;
+  // time in ms to wait before the first retry
+  retryDelay: number;
+  // multiplier applied to retryDelay after each retry
+  backoffFactor: number;
+};
+
+export type ClientOptions = {
+  emitPolicy?: Partial<EmitPolicy>;
+  emitPolicies?: Partial<Record<keyof ClientMessages, Partial<EmitPolicy>>>;
+  connectionMonitor?: Partial<ConnectionMonitorOptions>;
+};
+
+export const defaultEmitPolicy: EmitPolicy = {
+  timeout: 10000,
+  retries: 0,
+  retryDelay: 500,
+  backoffFactor: 2,
+};
 
 /**
  * Client is a typed wrapper for raw socket events sent to and from the server.
@@ -8,19 +40,35 @@ import ConnectionMonitor from "./ConnectionMonitor";
 export default class Client {
   public socket: Socket;
   public connectionMonitor: ConnectionMonitor;
+  private emitPolicy: EmitPolicy;
+  private emitPolicies: ClientOptions["emitPolicies"];
 
   /**
    * connect is a Client constructor that will wait until it is connected
    */
-  static async connect(url: string): Promise<Client> {
-    const client = new this(url);
+  static async connect(url: string, options?: ClientOptions): Promise<Client> {
+    const client = this.open(url, options);
     await client.waitFor("connect");
     return client;
   }
 
-  protected constructor(url: string) {
+  /**
+   * open is a Client constructor that connects in the background, returning
+   * a client that can be closed before it is connected. Wait for the
+   * connection with waitFor("connect").
+   */
+  static open(url: string, options?: ClientOptions): Client {
+    return new this(url, options);
+  }
+
+  protected constructor(url: string, options: ClientOptions = {}) {
     this.socket = SocketClient(url, { transports: ["websocket"] });
-    this.connectionMonitor = new ConnectionMonitor(this.socket, 500);
+    this.connectionMonitor = new ConnectionMonitor(
+      this.socket,
+      options.connectionMonitor
+    );
+    this.emitPolicy = { ...defaultEmitPolicy, ...options.emitPolicy };
+    this.emitPolicies = options.emitPolicies || {};
   }
 
   on<E extends keyof ServerMessages>(
@@ -47,16 +95,53 @@ export default class Client {
     return new Promise<R>((resolve) => this.socket.once(event, resolve));
   }
 
+  /**
+   * emit sends a message and resolves with the server's acknowledgement.
+   * It rejects with ServerRejectedError if the server responds with an error,
+   * or AckTimeoutError if no acknowledgement arrives in time.
+   */
   async emit<E extends keyof ClientMessages>(
     name: E,
-    data: ClientMessages[E][0]
+    data: ClientMessages[E][0],
+    policyOverride?: Partial<EmitPolicy>
+  ): Promise<ClientMessages[E][1]> {
+    const policy = {
+      ...this.emitPolicy,
+      ...this.emitPolicies?.[name],
+      ...policyOverride,
+    };
+
+    let delay = policy.retryDelay;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.emitOnce(name, data, policy.timeout);
+      } catch (e) {
+        if (!(e instanceof AckTimeoutError)) throw e;
+        if (attempt > policy.retries)
+          throw new AckTimeoutError(name, data, policy.timeout, attempt);
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      delay *= policy.backoffFactor;
+    }
+  }
+
+  private emitOnce<E extends keyof ClientMessages>(
+    name: E,
+    data: ClientMessages[E][0],
+    timeout: number
   ): Promise<ClientMessages[E][1]> {
     return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new AckTimeoutError(name, data, timeout, 1)),
+        timeout
+      );
       this.socket.emit(
         name,
         data,
         (response: ClientMessages[E][1] | { error: string }) => {
-          if ("error" in response) reject(response.error);
+          clearTimeout(timer);
+          if ("error" in response)
+            reject(new ServerRejectedError(name, data, response.error));
           else resolve(response);
         }
       );
@@ -0,0 +1,141 @@
+import "@testing-library/jest-dom";
+import { act, render, screen, waitFor } from "@testing-library/react";
+import { advanceTo } from "jest-date-mock";
+import { memo } from "react";
+import { CallStatus, ConnectionStateQuality, Role, UserStatus } from "./API";
+import Client from "./Client";
+import ConnectCallProvider, {
+  useCallStatus,
+  usePeer,
+  usePeers,
+} from "./ConnectCallProvider";
+import { clientFactory } from "./testFactories";
+import MediaDevices from "./__mocks__/MediaDevices";
+import MediaStream from "./__mocks__/MediaStream";
+
+jest.mock("./Client");
+jest.mock("mediasoup-client");
+Object.defineProperty(navigator, "mediaDevices", {
+  writable: true,
+  value: MediaDevices,
+});
+
+Object.defineProperty(window, "MediaStream", {
+  writable: true,
+  value: MediaStream,
+});
+
+const connectionState = {
+  quality: ConnectionStateQuality.excellent,
+  ping: 0,
+  badConnection: false,
+};
+
+const call = {
+  id: "2",
+  url: "url",
+  token: "T1",
+};
+const user = { id: "1" };
+
+function participant(id: string, status: UserStatus[] = []) {
+  return {
+    peerId: `socket-${id}`,
+    user: { id, role: Role.webinarAttendee },
+    connectionState,
+    status,
+    consumers: {},
+    manualConsumerPauses: {},
+  };
+}
+
+advanceTo(new Date("2021-11-23T12:34:56.789Z"));
+
+describe("ConnectCallProvider", () => {
+  let client: ReturnType<typeof clientFactory>;
+  beforeEach(() => {
+    client = clientFactory();
+    (Client.connect as jest.Mock).mockClear();
+    (Client.connect as jest.Mock).mockReturnValue(client);
+  });
+
+  it("only re-renders what changed", async () => {
+    const renders: Record<string, number> = {};
+
+    const Tile = memo(({ peerId }: { peerId: string }) => {
+      const peer = usePeer(peerId);
+      renders[peerId] = (renders[peerId] || 0) + 1;
+      return <div>{`${peer?.user.id}: ${peer?.status.join(",")}`}</div>;
+    });
+
+    const Gallery = () => {
+      const peers = usePeers();
+      return (
+        <>
+          {Object.keys(peers).map((peerId) => (
+            <Tile key={peerId} peerId={peerId} />
+          ))}
+        </>
+      );
+    };
+
+    const Status = () => {
+      const { clientStatus } = useCallStatus();
+      return <div>{clientStatus}</div>;
+    };
+
+    render(
+      <ConnectCallProvider call={call} user={user}>
+        <Status />
+        <Gallery />
+      </ConnectCallProvider>
+    );
+
+    expect(screen.getByText("initializing")).toBeInTheDocument();
+    await waitFor(() =>
+      expect(screen.getByText("connected")).toBeInTheDocument()
+    );
+
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {
+          "socket-2": participant("2"),
+          "socket-3": participant("3"),
+        },
+        status: CallStatus.live,
+      });
+    });
+    await waitFor(() => expect(screen.getByText("3:")).toBeInTheDocument());
+    const before = { ...renders };
+
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {
+          "socket-2": participant("2"),
+          "socket-3": participant("3", [UserStatus.AudioMutedByServer]),
+        },
+        status: CallStatus.live,
+      });
+    });
+    await waitFor(() =>
+      expect(
+        screen.getByText(`3: ${UserStatus.AudioMutedByServer}`)
+      ).toBeInTheDocument()
+    );
+
+    expect(renders["socket-2"]).toBe(before["socket-2"]);
+    expect(renders["socket-3"]).toBeGreaterThan(before["socket-3"]);
+  });
+
+  it("requires a provider", () => {
+    const Tile = () => {
+      usePeer("socket-2");
+      return null;
+    };
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    expect(() => render(<Tile />)).toThrow(
+      "useConnectCallStore requires a ConnectCallProvider"
+    );
+    (console.error as jest.Mock).mockRestore();
+  });
+});
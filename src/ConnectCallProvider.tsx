@@ -0,0 +1,81 @@
+import { createContext, ReactNode, useContext, useMemo } from "react";
+import { ProducerLabel } from "./API";
+import CallStore, { CallSnapshot } from "./CallStore";
+import { Message } from "./ChatLog";
+import { Peer } from "./RoomClient";
+import { ConnectCallProps, useCallStore } from "./useConnectCall";
+import useSyncExternalStore from "./useSyncExternalStore";
+
+const ConnectCallContext = createContext<CallStore | undefined>(undefined);
+
+/**
+ * ConnectCallProvider connects to a call for the hooks of its descendants.
+ * Each of them only re-renders when what it selects changes.
+ */
+const ConnectCallProvider = ({
+  children,
+  ...props
+}: ConnectCallProps & { children?: ReactNode }) => {
+  const store = useCallStore(props);
+
+  return (
+    <ConnectCallContext.Provider value={store}>
+      {children}
+    </ConnectCallContext.Provider>
+  );
+};
+
+export default ConnectCallProvider;
+
+/**
+ * useConnectCallStore returns the store of the nearest ConnectCallProvider,
+ * e.g. to act on the call
+ */
+export function useConnectCallStore(): CallStore {
+  const store = useContext(ConnectCallContext);
+  if (!store)
+    throw new Error("useConnectCallStore requires a ConnectCallProvider");
+  return store;
+}
+
+/**
+ * useCallSelector re-renders only when the selected part of the call changes.
+ * The selector should return a part of the snapshot, rather than make a new
+ * object, to be compared by reference.
+ */
+export function useCallSelector<T>(selector: (snapshot: CallSnapshot) => T): T {
+  const store = useConnectCallStore();
+  return useSyncExternalStore(store.subscribe, () =>
+    selector(store.getSnapshot())
+  );
+}
+
+export function usePeers(): Record<string, Peer> {
+  return useCallSelector((snapshot) => snapshot.peers);
+}
+
+export function usePeer(peerId: string): Peer | undefined {
+  return useCallSelector((snapshot) => snapshot.peers[peerId]);
+}
+
+export function useLocalProducer(
+  label: ProducerLabel
+): CallSnapshot["localProducers"][ProducerLabel] {
+  return useCallSelector((snapshot) => snapshot.localProducers[label]);
+}
+
+export function useMessages(): Message[] {
+  return useCallSelector((snapshot) => snapshot.messages);
+}
+
+export function useCallStatus(): Pick<
+  CallSnapshot,
+  "clientStatus" | "callStatus"
+> {
+  const clientStatus = useCallSelector((snapshot) => snapshot.clientStatus);
+  const callStatus = useCallSelector((snapshot) => snapshot.callStatus);
+  return useMemo(
+    () => ({ clientStatus, callStatus }),
+    [clientStatus, callStatus]
+  );
+}
@@ -0,0 +1,91 @@
+import { advanceBy } from "jest-date-mock";
+import mitt from "mitt";
+import { Socket } from "socket.io-client";
+import { ConnectionStateQuality } from "./API";
+import ConnectionMonitor, {
+  ConnectionMonitorOptions,
+} from "./ConnectionMonitor";
+
+function socketFactory() {
+  const emitter = mitt<Record<string, string>>();
+  return {
+    on: emitter.on,
+    off: emitter.off,
+    emit: jest.fn(),
+    // responds to a ping sent now
+    pong: () => emitter.emit("ccc-pong", new Date().getTime().toString()),
+  };
+}
+
+describe("ConnectionMonitor", () => {
+  let socket: ReturnType<typeof socketFactory>;
+  let onQuality: jest.Mock;
+
+  function monitorFactory(options: Partial<ConnectionMonitorOptions> = {}) {
+    const monitor = new ConnectionMonitor(socket as unknown as Socket, options);
+    monitor.emitter.on("quality", onQuality);
+    monitor.start();
+    return monitor;
+  }
+
+  function pings(monitor: ConnectionMonitor, ...latencies: number[]) {
+    latencies.forEach((ms) => {
+      advanceBy(10);
+      monitor.simulatePingLatency(ms);
+      socket.pong();
+    });
+  }
+
+  beforeEach(() => {
+    socket = socketFactory();
+    onQuality = jest.fn();
+  });
+
+  it("waits for enough samples", () => {
+    const monitor = monitorFactory({ minSamples: 3 });
+    pings(monitor, 10, 10);
+    expect(monitor.quality.quality).toBe(ConnectionStateQuality.unknown);
+    pings(monitor, 10);
+    expect(monitor.quality.quality).toBe(ConnectionStateQuality.excellent);
+    monitor.stop();
+  });
+
+  it("accepts custom thresholds and aggregation", () => {
+    const monitor = monitorFactory({
+      minSamples: 3,
+      aggregation: "median",
+      thresholds: { excellent: 20, good: 40, average: 60, poor: 80 },
+    });
+    pings(monitor, 30, 30, 1000);
+    expect(monitor.quality).toEqual({
+      quality: ConnectionStateQuality.good,
+      ping: 30,
+    });
+    monitor.stop();
+  });
+
+  it("requires a margin past a boundary to change quality", () => {
+    const monitor = monitorFactory({
+      minSamples: 1,
+      window: 5,
+      hysteresis: { downgrade: 20, upgrade: 10 },
+    });
+    pings(monitor, 40);
+    expect(monitor.quality.quality).toBe(ConnectionStateQuality.excellent);
+
+    // past the excellent boundary, but within the downgrade margin
+    pings(monitor, 60);
+    expect(monitor.quality.quality).toBe(ConnectionStateQuality.excellent);
+    pings(monitor, 80);
+    expect(monitor.quality.quality).toBe(ConnectionStateQuality.good);
+
+    // back within the excellent boundary, but not by the upgrade margin
+    pings(monitor, 45);
+    expect(monitor.quality.quality).toBe(ConnectionStateQuality.good);
+    pings(monitor, 30);
+    expect(monitor.quality.quality).toBe(ConnectionStateQuality.excellent);
+
+    expect(onQuality).toHaveBeenCalledTimes(3);
+    monitor.stop();
+  });
+});
@@ -4,6 +4,7 @@ import { ConnectionStateQuality } from "./API";
 
 export type QualityEvents = {
   quality: { quality: ConnectionStateQuality; ping: number };
+  ping: number;
 };
 
 interface Result {
@@ -11,28 +12,71 @@ interface Result {
   ms: number;
 }
 
-const RESULTS_TTL_MS = 5000;
+export type PingAggregation = "mean" | "median" | { percentile: number };
+
+export type ConnectionMonitorOptions = {
+  // time in ms between pings
+  interval: number;
+  // time in ms that a ping result is considered for quality
+  window: number;
+  // the number of results required within the window to establish quality
+  minSamples: number;
+  // upper bounds of ping in ms for each quality. anything more is bad.
+  thresholds: Record<
+    Exclude<
+      ConnectionStateQuality,
+      ConnectionStateQuality.bad | ConnectionStateQuality.unknown
+    >,
+    number
+  >;
+  // how results within the window are combined
+  aggregation: PingAggregation;
+  // margins in ms by which a ping must cross a boundary to change quality,
+  // so that quality doesn't flicker when ping hovers around a boundary
+  hysteresis: { downgrade: number; upgrade: number };
+};
+
+export const defaultConnectionMonitorOptions: ConnectionMonitorOptions = {
+  interval: 500,
+  window: 5000,
+  minSamples: 5,
+  thresholds: {
+    [ConnectionStateQuality.excellent]: 50,
+    [ConnectionStateQuality.good]: 150,
+    [ConnectionStateQuality.average]: 500,
+    [ConnectionStateQuality.poor]: 1000,
+  },
+  aggregation: "mean",
+  hysteresis: { downgrade: 0, upgrade: 0 },
+};
+
 const PING_EVENT = "ccc-ping";
 const PONG_EVENT = "ccc-pong";
 
+// from best to worst
 const qualities = [
   ConnectionStateQuality.excellent,
   ConnectionStateQuality.good,
   ConnectionStateQuality.average,
   ConnectionStateQuality.poor,
   ConnectionStateQuality.bad,
-  ConnectionStateQuality.unknown,
 ];
 
-// QualityRange defines the ranges by which we establish the Quality in milliseconds
-const QualityRange: Record<ConnectionStateQuality, number> = {
-  [ConnectionStateQuality.excellent]: 50,
-  [ConnectionStateQuality.good]: 150,
-  [ConnectionStateQuality.average]: 500,
-  [ConnectionStateQuality.poor]: 1000,
-  [ConnectionStateQuality.bad]: Infinity,
-  [ConnectionStateQuality.unknown]: NaN,
-};
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)
+  );
+  return sorted[index];
+}
+
+function aggregate(values: number[], aggregation: PingAggregation): number {
+  if (aggregation === "mean")
+    return values.reduce((a, b) => a + b) / values.length;
+  if (aggregation === "median") return percentile(values, 50);
+  return percentile(values, aggregation.percentile);
+}
 
 /**
  * ConnectionMonitor reports on the quality of the current connection to a remote host
@@ -40,7 +84,7 @@ const QualityRange: Record<ConnectionStateQuality, number> = {
 export default class ConnectionMonitor {
   private socket: Socket;
   private timer: NodeJS.Timeout | undefined;
-  private interval: number;
+  private options: ConnectionMonitorOptions;
   private results: Result[] = [];
   private _currentQuality: QualityEvents["quality"] = {
     quality: ConnectionStateQuality.unknown,
@@ -52,11 +96,22 @@ export default class ConnectionMonitor {
   /**
    *
    * @param socket the socket to emit 'ping' upon
-   * @param interval time in ms
+   * @param options overrides of defaultConnectionMonitorOptions
    */
-  constructor(socket: Socket, interval: number) {
+  constructor(socket: Socket, options: Partial<ConnectionMonitorOptions> = {}) {
     this.socket = socket;
-    this.interval = interval;
+    this.options = {
+      ...defaultConnectionMonitorOptions,
+      ...options,
+      thresholds: {
+        ...defaultConnectionMonitorOptions.thresholds,
+        ...options.thresholds,
+      },
+      hysteresis: {
+        ...defaultConnectionMonitorOptions.hysteresis,
+        ...options.hysteresis,
+      },
+    };
     this.emitter = mitt();
     this.socket.on("disconnect", () => {
       this.emitter.all.clear();
@@ -81,17 +136,15 @@ export default class ConnectionMonitor {
       // TODO: log a warning?
       return;
     }
-    if (this.simulatedPingLatency !== null) {
-      this.results.push({
-        checkTime: startTime,
-        ms: this.simulatedPingLatency,
-      });
-    } else {
-      this.results.push({
-        checkTime: startTime,
-        ms: new Date().getTime() - startTime,
-      });
-    }
+    const result = {
+      checkTime: startTime,
+      ms:
+        this.simulatedPingLatency !== null
+          ? this.simulatedPingLatency
+          : new Date().getTime() - startTime,
+    };
+    this.results.push(result);
+    this.emitter.emit("ping", result.ms);
     this.analyze();
   };
 
@@ -103,28 +156,41 @@ export default class ConnectionMonitor {
     this.simulatedPingLatency = null;
   }
 
+  private classify(ms: number): number {
+    const { thresholds } = this.options;
+    const index = qualities.findIndex(
+      (quality) =>
+        quality === ConnectionStateQuality.bad ||
+        ms <= thresholds[quality as keyof typeof thresholds]
+    );
+    return index;
+  }
+
   private analyze() {
+    const { window, minSamples, aggregation, hysteresis } = this.options;
     // remove results that have expired
-    const limit = new Date().getTime() - RESULTS_TTL_MS;
+    const limit = new Date().getTime() - window;
     this.results = this.results.filter((r) => r.checkTime > limit);
     // ensure we have at least a few results to compute a valid average from
-    if (this.results.length < 5) {
+    if (this.results.length < minSamples) {
       return;
     }
-    // take the average
-    const average =
-      this.results.map((r) => r.ms).reduce((a, b) => a + b) /
-      this.results.length;
-    // get the quality value
-    let newQuality: ConnectionStateQuality = ConnectionStateQuality.unknown;
-    for (const quality of qualities) {
-      if (average <= QualityRange[quality]) {
-        newQuality = quality;
-        break;
-      }
-    }
+    const ping = aggregate(
+      this.results.map((r) => r.ms),
+      aggregation
+    );
+    // get the quality value, requiring a margin past the boundaries of the
+    // current quality before changing it
+    const current = qualities.indexOf(this._currentQuality.quality);
+    const downgraded = this.classify(ping - hysteresis.downgrade);
+    const upgraded = this.classify(ping + hysteresis.upgrade);
+    let newQuality = this._currentQuality.quality;
+    if (current === -1) newQuality = qualities[this.classify(ping)];
+    else if (downgraded > current) newQuality = qualities[downgraded];
+    else if (upgraded < current) newQuality = qualities[upgraded];
+
     if (this._currentQuality.quality !== newQuality) {
-      const q = { quality: newQuality, ping: Math.round(average) };
+      const q = { quality: newQuality, ping: Math.round(ping) };
       this.emitter.emit("quality", q);
       this._currentQuality = q;
     }
@@ -138,7 +204,7 @@ export default class ConnectionMonitor {
     this.socket.on(PONG_EVENT, this.handleResponse);
     this.timer = setInterval(() => {
       this.update();
-    }, this.interval);
+    }, this.options.interval);
   }
 
   /**
@@ -0,0 +1,75 @@
+import { ConnectionStateQuality } from "./API";
+import LayerManager from "./LayerManager";
+
+describe("LayerManager", () => {
+  let apply: jest.Mock;
+  let manager: LayerManager;
+  beforeEach(() => {
+    apply = jest.fn().mockResolvedValue(undefined);
+    manager = new LayerManager(apply);
+  });
+
+  it("selects layers by rendered size", () => {
+    manager.setHints("small", { width: 160, height: 120 });
+    manager.setHints("medium", { width: 320, height: 240 });
+    manager.setHints("large", { width: 1280, height: 720 });
+
+    expect(apply).toHaveBeenCalledWith("small", {
+      spatialLayer: 0,
+      temporalLayer: 1,
+    });
+    expect(apply).toHaveBeenCalledWith("medium", {
+      spatialLayer: 1,
+      temporalLayer: 2,
+    });
+    expect(apply).toHaveBeenCalledWith("large", {
+      spatialLayer: 2,
+      temporalLayer: 2,
+    });
+  });
+
+  it("favors the active speaker and drops hidden consumers", () => {
+    manager.setHints("speaker", { height: 120, activeSpeaker: true });
+    manager.setHints("hidden", { height: 720, visible: false });
+
+    expect(apply).toHaveBeenCalledWith("speaker", {
+      spatialLayer: 1,
+      temporalLayer: 2,
+    });
+    expect(apply).toHaveBeenCalledWith("hidden", {
+      spatialLayer: 0,
+      temporalLayer: 0,
+    });
+  });
+
+  it("lowers layers when the connection degrades", () => {
+    manager.setHints("large", { height: 720 });
+    manager.setQuality(ConnectionStateQuality.average);
+    manager.setQuality(ConnectionStateQuality.bad);
+
+    expect(apply.mock.calls).toEqual([
+      ["large", { spatialLayer: 2, temporalLayer: 2 }],
+      ["large", { spatialLayer: 1, temporalLayer: 2 }],
+      ["large", { spatialLayer: 0, temporalLayer: 1 }],
+    ]);
+  });
+
+  it("only requests changes", () => {
+    manager.setHints("large", { height: 720 });
+    manager.setHints("large", { width: 1000, height: 700 });
+
+    expect(apply).toHaveBeenCalledTimes(1);
+  });
+
+  it("favors consumers of the active speaker", () => {
+    manager.setHints("speaker", { height: 120 });
+    manager.setActiveSpeakers(["speaker"]);
+    manager.setActiveSpeakers([]);
+
+    expect(apply.mock.calls).toEqual([
+      ["speaker", { spatialLayer: 0, temporalLayer: 1 }],
+      ["speaker", { spatialLayer: 1, temporalLayer: 2 }],
+      ["speaker", { spatialLayer: 0, temporalLayer: 1 }],
+    ]);
+  });
+});
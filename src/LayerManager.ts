@@ -0,0 +1,153 @@
+import { ConnectionStateQuality } from "./API";
+
+export type ConsumerHints = {
+  // rendered size of the element displaying the consumer, in css pixels
+  width: number;
+  height: number;
+  visible: boolean;
+  activeSpeaker: boolean;
+};
+
+export type PreferredLayers = {
+  spatialLayer: number;
+  temporalLayer: number;
+};
+
+export type LayerSelectionOptions = {
+  // a rendered height above heightThresholds[n] selects spatial layer n + 1
+  heightThresholds: number[];
+  maxTemporalLayer: number;
+};
+
+const defaultOptions: LayerSelectionOptions = {
+  heightThresholds: [180, 360],
+  maxTemporalLayer: 2,
+};
+
+const defaultHints: ConsumerHints = {
+  width: 0,
+  height: 0,
+  visible: true,
+  activeSpeaker: false,
+};
+
+// the highest layers we allow ourselves to request for a given quality
+const QualityCaps: Record<ConnectionStateQuality, Partial<PreferredLayers>> = {
+  [ConnectionStateQuality.excellent]: {},
+  [ConnectionStateQuality.good]: {},
+  [ConnectionStateQuality.average]: { spatialLayer: 1 },
+  [ConnectionStateQuality.poor]: { spatialLayer: 0 },
+  [ConnectionStateQuality.bad]: { spatialLayer: 0, temporalLayer: 1 },
+  [ConnectionStateQuality.unknown]: {},
+};
+
+/**
+ * LayerManager picks the simulcast layers to receive for each consumer from
+ * hints about how it is rendered, and the quality of our connection.
+ */
+export default class LayerManager {
+  private apply: (consumerId: string, layers: PreferredLayers) => Promise<void>;
+  private options: LayerSelectionOptions;
+  private hints: Map<string, ConsumerHints> = new Map();
+  private selected: Map<string, PreferredLayers> = new Map();
+  private activeSpeakers: Set<string> = new Set();
+  private quality: ConnectionStateQuality = ConnectionStateQuality.unknown;
+
+  /**
+   * @param apply requests the given layers for a consumer from the server
+   * @param options thresholds for selecting layers
+   */
+  constructor(
+    apply: (consumerId: string, layers: PreferredLayers) => Promise<void>,
+    options: Partial<LayerSelectionOptions> = {}
+  ) {
+    this.apply = apply;
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  /**
+   * setHints merges new hints for a consumer and updates its layers
+   */
+  setHints(consumerId: string, hints: Partial<ConsumerHints>) {
+    this.hints.set(consumerId, {
+      ...defaultHints,
+      ...this.hints.get(consumerId),
+      ...hints,
+    });
+    this.update(consumerId);
+  }
+
+  /**
+   * setActiveSpeakers marks the consumers of the active speaker, as if their
+   * hints said so
+   */
+  setActiveSpeakers(consumerIds: string[]) {
+    const previous = Array.from(this.activeSpeakers);
+    this.activeSpeakers = new Set(consumerIds);
+    previous.concat(consumerIds).forEach((id) => this.update(id));
+  }
+
+  /**
+   * remove stops managing layers for a consumer
+   */
+  remove(consumerId: string) {
+    this.hints.delete(consumerId);
+    this.selected.delete(consumerId);
+    this.activeSpeakers.delete(consumerId);
+  }
+
+  /**
+   * setQuality updates all consumers for the quality of our connection
+   */
+  setQuality(quality: ConnectionStateQuality) {
+    if (this.quality === quality) return;
+    this.quality = quality;
+    Array.from(this.hints.keys()).forEach((id) => this.update(id));
+  }
+
+  select(hints: ConsumerHints): PreferredLayers {
+    const { heightThresholds, maxTemporalLayer } = this.options;
+
+    if (!hints.visible) return { spatialLayer: 0, temporalLayer: 0 };
+
+    let spatialLayer = heightThresholds.filter((h) => hints.height > h).length;
+    let temporalLayer = maxTemporalLayer;
+
+    // the active speaker is the focus of attention, so never show it blurry
+    if (hints.activeSpeaker) spatialLayer = Math.max(spatialLayer, 1);
+    // small thumbnails of quiet participants can afford a lower framerate
+    else if (spatialLayer === 0) temporalLayer = Math.min(temporalLayer, 1);
+
+    const cap = QualityCaps[this.quality];
+    if (cap.spatialLayer !== undefined)
+      spatialLayer = Math.min(spatialLayer, cap.spatialLayer);
+    if (cap.temporalLayer !== undefined)
+      temporalLayer = Math.min(temporalLayer, cap.temporalLayer);
+
+    return { spatialLayer, temporalLayer };
+  }
+
+  private update(consumerId: string) {
+    const hints = this.hints.get(consumerId);
+    if (!hints) return;
+
+    const layers = this.select({
+      ...hints,
+      activeSpeaker: hints.activeSpeaker || this.activeSpeakers.has(consumerId),
+    });
+    const last = this.selected.get(consumerId);
+    if (
+      last?.spatialLayer === layers.spatialLayer &&
+      last?.temporalLayer === layers.temporalLayer
+    )
+      return;
+
+    this.selected.set(consumerId, layers);
+    this.apply(consumerId, layers).catch((e) => {
+      console.error("Failed to set preferred layers", e);
+      // forget the selection so that the next update tries again
+      if (this.selected.get(consumerId) === layers)
+        this.selected.delete(consumerId);
+    });
+  }
+}
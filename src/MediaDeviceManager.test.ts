@@ -0,0 +1,123 @@
+import MediaDeviceManager from "./MediaDeviceManager";
+
+function device(kind: MediaDeviceKind, deviceId: string): MediaDeviceInfo {
+  return { kind, deviceId, label: deviceId, groupId: "" } as MediaDeviceInfo;
+}
+
+// a stand-in for navigator.mediaDevices with the given devices attached
+function fakeMediaDevices(devices: MediaDeviceInfo[]) {
+  const listeners: Set<() => void> = new Set();
+  return {
+    devices,
+    enumerateDevices: jest.fn(async () => devices),
+    getUserMedia: jest.fn(async () => ({
+      getAudioTracks: () => [{ kind: "audio" }],
+      getVideoTracks: () => [{ kind: "video" }],
+    })),
+    addEventListener: (_: string, listener: () => void) =>
+      listeners.add(listener),
+    removeEventListener: (_: string, listener: () => void) =>
+      listeners.delete(listener),
+    changeDevices(next: MediaDeviceInfo[]) {
+      devices.splice(0, devices.length, ...next);
+      listeners.forEach((listener) => listener());
+    },
+    listeners,
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("MediaDeviceManager", () => {
+  let mediaDevices: ReturnType<typeof fakeMediaDevices>;
+  let manager: MediaDeviceManager;
+  beforeEach(() => {
+    window.localStorage.clear();
+    mediaDevices = fakeMediaDevices([
+      device("videoinput", "camera-1"),
+      device("videoinput", "camera-2"),
+      device("audiooutput", "speaker-1"),
+    ]);
+    manager = new MediaDeviceManager(mediaDevices as unknown as MediaDevices);
+  });
+
+  afterEach(() => manager.stop());
+
+  it("lists devices once started", async () => {
+    const onDevices = jest.fn();
+    manager.emitter.on("devices", onDevices);
+
+    manager.start();
+    await flush();
+
+    expect(manager.devices.map((d) => d.deviceId)).toEqual([
+      "camera-1",
+      "camera-2",
+      "speaker-1",
+    ]);
+    expect(onDevices).toHaveBeenCalledTimes(1);
+  });
+
+  it("remembers selections and captures from them", async () => {
+    manager.select("videoinput", "camera-2");
+    expect(manager.selected).toEqual({ videoinput: "camera-2" });
+
+    const restored = new MediaDeviceManager(
+      mediaDevices as unknown as MediaDevices
+    );
+    expect(restored.selected).toEqual({ videoinput: "camera-2" });
+
+    await restored.getTrack("videoinput");
+    expect(mediaDevices.getUserMedia).toHaveBeenCalledWith({
+      video: { deviceId: { exact: "camera-2" } },
+    });
+  });
+
+  it("follows device changes and forgets devices that went away", async () => {
+    manager.start();
+    await flush();
+    manager.select("videoinput", "camera-2");
+    const onSelected = jest.fn();
+    manager.emitter.on("selected", onSelected);
+
+    mediaDevices.changeDevices([device("videoinput", "camera-1")]);
+    await flush();
+
+    expect(manager.devices.map((d) => d.deviceId)).toEqual(["camera-1"]);
+    expect(onSelected).toHaveBeenCalledWith({});
+
+    manager.stop();
+    expect(mediaDevices.listeners.size).toBe(0);
+  });
+
+  it("reports devices that cannot be listed", async () => {
+    const failure = new Error("enumerateDevices failed");
+    mediaDevices.enumerateDevices.mockRejectedValue(failure);
+    const onError = jest.fn();
+    manager.emitter.on("error", onError);
+
+    manager.start();
+    await flush();
+    mediaDevices.changeDevices([]);
+    await flush();
+
+    expect(onError.mock.calls).toEqual([[failure], [failure]]);
+    expect(manager.devices).toEqual([]);
+  });
+
+  it("plays attached elements through the selected speaker", async () => {
+    const element = {
+      setSinkId: jest.fn().mockResolvedValue(undefined),
+    } as unknown as HTMLMediaElement;
+
+    const detach = manager.attachAudioOutput(element);
+    manager.select("audiooutput", "speaker-1");
+    manager.select("videoinput", "camera-1");
+    detach();
+    manager.select("audiooutput", "speaker-2");
+
+    expect(
+      (element as unknown as { setSinkId: jest.Mock }).setSinkId.mock.calls
+    ).toEqual([[""], ["speaker-1"]]);
+  });
+});
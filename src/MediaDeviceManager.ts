@@ -0,0 +1,207 @@
+import mitt, { Emitter } from "mitt";
+import { ProducerLabel } from "./API";
+
+export type SelectedDevices = Partial<Record<MediaDeviceKind, string>>;
+
+export type DeviceEvents = {
+  devices: MediaDeviceInfo[];
+  selected: SelectedDevices;
+  // devices could not be listed, or a media element could not be switched
+  // to the selected speaker
+  error: Error;
+};
+
+export type CaptureDeviceKind = "audioinput" | "videoinput";
+
+// the kind of device that captures each label
+export const labelDeviceKinds: Partial<
+  Record<ProducerLabel, CaptureDeviceKind>
+> = {
+  [ProducerLabel.audio]: "audioinput",
+  [ProducerLabel.video]: "videoinput",
+};
+
+const STORAGE_KEY = "connect-call-client:selectedDevices";
+
+// setSinkId is not supported everywhere, e.g. by Safari
+type SinkableElement = HTMLMediaElement & {
+  setSinkId?: (deviceId: string) => Promise<void>;
+};
+
+function readSelection(): SelectedDevices {
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch (e) {
+    return {};
+  }
+}
+
+function writeSelection(selected: SelectedDevices) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(selected));
+  } catch (e) {
+    // storage may be unavailable, e.g. in private browsing
+  }
+}
+
+/**
+ * MediaDeviceManager enumerates cameras, microphones and speakers, remembers
+ * which ones the user selected, and captures tracks from them.
+ */
+export default class MediaDeviceManager {
+  private mediaDevices?: MediaDevices;
+  private _devices: MediaDeviceInfo[] = [];
+  private _selected: SelectedDevices;
+  private sinks: Set<SinkableElement> = new Set();
+  public emitter: Emitter<DeviceEvents>;
+
+  /**
+   * @param mediaDevices defaults to navigator.mediaDevices
+   */
+  constructor(mediaDevices?: MediaDevices) {
+    this.mediaDevices =
+      mediaDevices ||
+      (typeof navigator !== "undefined" ? navigator.mediaDevices : undefined);
+    this._selected = readSelection();
+    this.emitter = mitt();
+  }
+
+  /**
+   * returns the devices currently available
+   */
+  public get devices(): MediaDeviceInfo[] {
+    return this._devices;
+  }
+
+  /**
+   * returns the selected device id by kind
+   */
+  public get selected(): SelectedDevices {
+    return this._selected;
+  }
+
+  private handleDeviceChange = () => this.refreshInBackground();
+
+  private refreshInBackground() {
+    this.refresh().catch((e) =>
+      this.emitter.emit(
+        "error",
+        e instanceof Error ? e : new Error("Failed to list devices")
+      )
+    );
+  }
+
+  /**
+   * refresh enumerates devices again, and forgets selections of devices that
+   * are no longer available
+   */
+  async refresh(): Promise<void> {
+    if (!this.mediaDevices?.enumerateDevices) return;
+
+    this._devices = await this.mediaDevices.enumerateDevices();
+    this.emitter.emit("devices", this._devices);
+
+    const missing = (Object.keys(this._selected) as MediaDeviceKind[]).filter(
+      (kind) =>
+        !this._devices.some(
+          (d) => d.kind === kind && d.deviceId === this._selected[kind]
+        )
+    );
+    // device lists are empty until permission is granted, so don't forget
+    // choices just because we can't see them yet
+    if (missing.length && this._devices.some((d) => d.deviceId)) {
+      const selected = { ...this._selected };
+      missing.forEach((kind) => delete selected[kind]);
+      this.setSelected(selected, false);
+    }
+  }
+
+  /**
+   * select a device to use for its kind
+   */
+  select(kind: MediaDeviceKind, deviceId: string) {
+    this.setSelected({ ...this._selected, [kind]: deviceId }, true);
+  }
+
+  private setSelected(selected: SelectedDevices, remember: boolean) {
+    const speakerChanged = selected.audiooutput !== this._selected.audiooutput;
+    this._selected = selected;
+    if (remember) writeSelection(selected);
+    this.emitter.emit("selected", selected);
+    if (speakerChanged) this.sinks.forEach((sink) => void this.applySink(sink));
+  }
+
+  /**
+   * attachAudioOutput plays a media element through the selected speaker, now
+   * and whenever another one is selected. It returns a function to detach it.
+   */
+  attachAudioOutput(element: HTMLMediaElement): () => void {
+    this.sinks.add(element);
+    void this.applySink(element);
+    return () => {
+      this.sinks.delete(element);
+    };
+  }
+
+  private async applySink(element: SinkableElement) {
+    if (!element.setSinkId) return;
+    try {
+      // an empty id selects the default speaker
+      await element.setSinkId(this._selected.audiooutput || "");
+    } catch (e) {
+      this.emitter.emit(
+        "error",
+        e instanceof Error ? e : new Error("Failed to select the speaker")
+      );
+    }
+  }
+
+  /**
+   * getTrack captures a track from the selected device of a kind, or from the
+   * default device if none is selected
+   */
+  async getTrack(
+    kind: CaptureDeviceKind,
+    constraints: MediaTrackConstraints = {}
+  ): Promise<MediaStreamTrack> {
+    if (!this.mediaDevices) throw new Error("Media devices are unavailable");
+
+    const deviceId = this._selected[kind];
+    const trackConstraints = {
+      ...constraints,
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    };
+    const stream = await this.mediaDevices.getUserMedia(
+      kind === "audioinput"
+        ? { audio: trackConstraints }
+        : { video: trackConstraints }
+    );
+    const [track] =
+      kind === "audioinput" ? stream.getAudioTracks() : stream.getVideoTracks();
+
+    // labels are only revealed once permission is granted
+    this.refreshInBackground();
+
+    return track;
+  }
+
+  /**
+   * starts watching for device changes
+   */
+  start() {
+    if (!this.mediaDevices?.addEventListener) return;
+    this.mediaDevices.addEventListener("devicechange", this.handleDeviceChange);
+    this.refreshInBackground();
+  }
+
+  /**
+   * stops watching for device changes
+   */
+  stop() {
+    if (!this.mediaDevices?.removeEventListener) return;
+    this.mediaDevices.removeEventListener(
+      "devicechange",
+      this.handleDeviceChange
+    );
+  }
+}
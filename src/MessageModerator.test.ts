@@ -0,0 +1,64 @@
+import { Role } from "./API";
+import MessageModerator from "./MessageModerator";
+
+const context = {
+  direction: "incoming" as const,
+  user: { id: "2", role: Role.visitParticipant },
+};
+
+describe("MessageModerator", () => {
+  it("is disabled without any rules or checks", () => {
+    expect(new MessageModerator().enabled).toBe(false);
+    expect(new MessageModerator({ allowedWords: ["fine"] }).enabled).toBe(
+      false
+    );
+  });
+
+  it("redacts denied words, except within allowed words", async () => {
+    const moderator = new MessageModerator({
+      deniedWords: ["darn", "heck"],
+      allowedWords: ["darnell"],
+    });
+    expect(
+      await moderator.moderate("Darn it Darnell, what the heck", context)
+    ).toEqual({
+      contents: "**** it Darnell, what the ****",
+      blocked: false,
+      redacted: true,
+      flagged: false,
+      reasons: ["denied word"],
+    });
+  });
+
+  it("applies pattern rules", async () => {
+    const moderator = new MessageModerator({
+      rules: [
+        { pattern: /\d{3}-\d{4}/, action: "redact", reason: "phone number" },
+        { pattern: /escape/i, action: "flag" },
+      ],
+    });
+    expect(
+      await moderator.moderate("plan the ESCAPE, call 555-1234", context)
+    ).toEqual({
+      contents: "plan the ESCAPE, call ********",
+      blocked: false,
+      redacted: true,
+      flagged: true,
+      reasons: ["phone number", "matched /escape/i"],
+    });
+  });
+
+  it("runs custom checks until one blocks", async () => {
+    const blocking = jest.fn().mockResolvedValue({
+      action: "block",
+      reason: "threat",
+    });
+    const after = jest.fn();
+    const moderator = new MessageModerator({ checks: [blocking, after] });
+
+    const result = await moderator.moderate("something", context);
+    expect(result).toMatchObject({ blocked: true, reasons: ["threat"] });
+    expect(blocking).toHaveBeenCalledWith("something", context);
+    expect(after).not.toHaveBeenCalled();
+  });
+});
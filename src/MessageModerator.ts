@@ -0,0 +1,172 @@
+import { MessageRecipient, User } from "./API";
+
+export type ModerationContext = {
+  direction: "outgoing" | "incoming";
+  // the sender
+  user: User;
+  to?: MessageRecipient;
+};
+
+export type ModerationVerdict =
+  | { action: "allow" }
+  | { action: "block"; reason: string }
+  | { action: "redact"; contents: string; reason: string }
+  | { action: "flag"; reason: string };
+
+/**
+ * ModerationCheck is a custom screen, e.g. a call to a moderation service
+ */
+export type ModerationCheck = (
+  contents: string,
+  context: ModerationContext
+) => ModerationVerdict | Promise<ModerationVerdict>;
+
+export type ModerationRule = {
+  pattern: RegExp;
+  action: "block" | "redact" | "flag";
+  reason?: string;
+};
+
+export type ModerationOptions = {
+  // acted on wherever they appear as whole words, ignoring case
+  deniedWords?: string[];
+  deniedWordAction?: ModerationRule["action"];
+  // never acted on, even when they contain a denied word or match a rule
+  allowedWords?: string[];
+  rules?: ModerationRule[];
+  // run in order after the rules, until one blocks
+  checks?: ModerationCheck[];
+};
+
+export type ModerationResult = {
+  // redacted, when any rule or check redacted it
+  contents: string;
+  blocked: boolean;
+  redacted: boolean;
+  flagged: boolean;
+  reasons: string[];
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wordsPattern(words: string[]): RegExp {
+  return new RegExp(`\\b(?:${words.map(escapeRegExp).join("|")})\\b`, "gi");
+}
+
+function globalPattern(pattern: RegExp): RegExp {
+  return pattern.global
+    ? pattern
+    : new RegExp(pattern.source, pattern.flags + "g");
+}
+
+/**
+ * MessageModerator screens chat messages with word lists, pattern rules and
+ * custom checks, each of which may block, redact or flag a message.
+ */
+export default class MessageModerator {
+  private rules: ModerationRule[];
+  private allowed?: RegExp;
+  private checks: ModerationCheck[];
+
+  constructor({
+    deniedWords = [],
+    deniedWordAction = "redact",
+    allowedWords = [],
+    rules = [],
+    checks = [],
+  }: ModerationOptions = {}) {
+    deniedWords = deniedWords.filter(Boolean);
+    allowedWords = allowedWords.filter(Boolean);
+    this.rules = [
+      ...(deniedWords.length
+        ? [
+            {
+              pattern: wordsPattern(deniedWords),
+              action: deniedWordAction,
+              reason: "denied word",
+            },
+          ]
+        : []),
+      ...rules,
+    ];
+    this.allowed = allowedWords.length ? wordsPattern(allowedWords) : undefined;
+    this.checks = checks;
+  }
+
+  /**
+   * returns whether any moderation is configured
+   */
+  public get enabled(): boolean {
+    return this.rules.length > 0 || this.checks.length > 0;
+  }
+
+  async moderate(
+    contents: string,
+    context: ModerationContext
+  ): Promise<ModerationResult> {
+    const result: ModerationResult = {
+      contents,
+      blocked: false,
+      redacted: false,
+      flagged: false,
+      reasons: [],
+    };
+
+    const apply = (verdict: ModerationVerdict) => {
+      if (verdict.action === "allow") return;
+      result.reasons.push(verdict.reason);
+      if (verdict.action === "block") result.blocked = true;
+      if (verdict.action === "flag") result.flagged = true;
+      if (verdict.action === "redact") {
+        result.redacted = true;
+        result.contents = verdict.contents;
+      }
+    };
+
+    this.rules.forEach((rule) => apply(this.applyRule(rule, result.contents)));
+    for (const check of this.checks) {
+      if (result.blocked) break;
+      apply(await check(result.contents, context));
+    }
+
+    return result;
+  }
+
+  private applyRule(rule: ModerationRule, contents: string): ModerationVerdict {
+    const allowedRanges = this.allowedRanges(contents);
+    let matched = false;
+
+    const redacted = contents.replace(
+      globalPattern(rule.pattern),
+      (match: string, ...args: unknown[]) => {
+        // the offset follows any capture groups
+        const offset = args.find((arg) => typeof arg === "number") as number;
+        const allowed = allowedRanges.some(
+          ([start, end]) => offset >= start && offset + match.length <= end
+        );
+        if (!match || allowed) return match;
+        matched = true;
+        return "*".repeat(match.length);
+      }
+    );
+
+    if (!matched) return { action: "allow" };
+    const reason = rule.reason || `matched ${rule.pattern}`;
+    return rule.action === "redact"
+      ? { action: "redact", contents: redacted, reason }
+      : { action: rule.action, reason };
+  }
+
+  private allowedRanges(contents: string): [number, number][] {
+    if (!this.allowed) return [];
+    const ranges: [number, number][] = [];
+    const pattern = new RegExp(this.allowed.source, this.allowed.flags);
+    let match;
+    while ((match = pattern.exec(contents))) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+    return ranges;
+  }
+}
@@ -0,0 +1,181 @@
+import { ConnectionStateQuality } from "./API";
+import Client from "./Client";
+import MediaDeviceManager from "./MediaDeviceManager";
+import PreCallCheck, { PreCallCheckOptions } from "./PreCallCheck";
+import { clientFactory } from "./testFactories";
+import MediaDevices from "./__mocks__/MediaDevices";
+import MediaStream from "./__mocks__/MediaStream";
+
+jest.mock("./Client");
+
+Object.defineProperty(window, "MediaStream", {
+  writable: true,
+  value: MediaStream,
+});
+
+// gathers the configured candidates
+let candidateTypes: string[] = [];
+class FakePeerConnection {
+  onicecandidate?: (e: { candidate: unknown }) => void;
+  createDataChannel = jest.fn();
+  createOffer = async () => ({ type: "offer", sdp: "" });
+  close = jest.fn();
+
+  async setLocalDescription() {
+    candidateTypes.forEach((type) =>
+      this.onicecandidate?.({ candidate: { type } })
+    );
+    this.onicecandidate?.({ candidate: null });
+  }
+}
+
+Object.defineProperty(window, "RTCPeerConnection", {
+  writable: true,
+  value: FakePeerConnection,
+});
+
+const options: Partial<PreCallCheckOptions> = {
+  pings: 2,
+  timeout: 500,
+  iceServers: [{ urls: "stun:stun.example.com" }],
+};
+
+describe("PreCallCheck", () => {
+  let client: ReturnType<typeof clientFactory>;
+  let deviceManager: MediaDeviceManager;
+
+  beforeEach(() => {
+    client = clientFactory();
+    (Client.open as jest.Mock).mockReturnValue(client);
+    // the server responds to every ping
+    client.connectionMonitor.start.mockImplementation(() => {
+      client.connectionMonitor.emitter.emit("ping", 40);
+      client.connectionMonitor.emitter.emit("ping", 60);
+    });
+    Object.assign(client.connectionMonitor, {
+      quality: { quality: ConnectionStateQuality.good, ping: 50 },
+    });
+    deviceManager = new MediaDeviceManager(
+      MediaDevices as unknown as MediaDevices
+    );
+    candidateTypes = ["host", "srflx"];
+  });
+
+  it("passes when everything works", async () => {
+    const report = await new PreCallCheck("url", options, deviceManager).run();
+
+    expect(report).toEqual({
+      outcome: "pass",
+      camera: { outcome: "pass", detail: "The camera works" },
+      microphone: {
+        outcome: "pass",
+        detail: "The microphone level is unknown",
+      },
+      latency: {
+        outcome: "pass",
+        detail: "Latency is good",
+        ping: 50,
+        quality: ConnectionStateQuality.good,
+      },
+      connectivity: {
+        outcome: "pass",
+        detail: "The ICE servers can be reached over UDP",
+        candidateTypes: ["host", "srflx"],
+      },
+    });
+    expect(client.close).toHaveBeenCalled();
+  });
+
+  it("fails when permission to a device is denied", async () => {
+    deviceManager = new MediaDeviceManager({
+      getUserMedia: jest
+        .fn()
+        .mockRejectedValue(
+          Object.assign(new Error("denied"), { name: "NotAllowedError" })
+        ),
+    } as unknown as MediaDevices);
+
+    const report = await new PreCallCheck(
+      undefined,
+      { ...options, connectivity: false },
+      deviceManager
+    ).run();
+
+    expect(report).toEqual({
+      outcome: "fail",
+      camera: {
+        outcome: "fail",
+        detail: "Permission to use the camera was denied",
+      },
+      microphone: {
+        outcome: "fail",
+        detail: "Permission to use the microphone was denied",
+      },
+    });
+  });
+
+  it("fails when the ICE servers cannot be reached", async () => {
+    candidateTypes = ["host"];
+    const check = new PreCallCheck(undefined, options, deviceManager);
+
+    expect(await check.checkConnectivity()).toEqual({
+      outcome: "fail",
+      detail: "The ICE servers could not be reached; UDP may be blocked",
+      candidateTypes: ["host"],
+    });
+
+    candidateTypes = ["host", "relay"];
+    expect(await check.checkConnectivity()).toEqual({
+      outcome: "pass",
+      detail: "Media can be relayed through TURN",
+      candidateTypes: ["host", "relay"],
+    });
+  });
+
+  it("skips the connectivity check without ICE servers", async () => {
+    const report = await new PreCallCheck(
+      undefined,
+      { ...options, camera: false, microphone: false, iceServers: [] },
+      deviceManager
+    ).run();
+
+    expect(report).toEqual({ outcome: "pass" });
+  });
+
+  it("warns when there are no ICE servers to check", async () => {
+    const check = new PreCallCheck(
+      undefined,
+      { ...options, iceServers: [] },
+      deviceManager
+    );
+
+    expect(await check.checkConnectivity()).toEqual({
+      outcome: "warn",
+      detail: "No ICE servers were given to check media connectivity with",
+      candidateTypes: [],
+    });
+  });
+
+  it("fails when the server does not respond", async () => {
+    client.connectionMonitor.start.mockImplementation(() => undefined);
+    const check = new PreCallCheck("url", options, deviceManager);
+
+    expect(await check.checkLatency("url")).toEqual({
+      outcome: "fail",
+      detail: "The server did not respond",
+      quality: ConnectionStateQuality.unknown,
+    });
+  });
+
+  it("stops connecting when the server cannot be reached", async () => {
+    client.waitFor.mockReturnValue(new Promise(() => undefined));
+    const check = new PreCallCheck("url", options, deviceManager);
+
+    expect(await check.checkLatency("url")).toEqual({
+      outcome: "fail",
+      detail: "The server could not be reached",
+      quality: ConnectionStateQuality.unknown,
+    });
+    expect(client.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,361 @@
+import { ConnectionStateQuality } from "./API";
+import AudioLevelMonitor from "./AudioLevelMonitor";
+import Client from "./Client";
+import MediaDeviceManager from "./MediaDeviceManager";
+
+export type CheckOutcome = "pass" | "warn" | "fail";
+
+export type CheckResult = {
+  outcome: CheckOutcome;
+  // what was found, or why it did not pass
+  detail: string;
+};
+
+/**
+ * PreCallReport is the result of every check that was run. Checks that were
+ * skipped are missing.
+ */
+export type PreCallReport = {
+  // the worst outcome of every check
+  outcome: CheckOutcome;
+  camera?: CheckResult;
+  // level is the loudest volume heard, between 0 and 1
+  microphone?: CheckResult & { level?: number };
+  // ping is the signalling round trip time in ms
+  latency?: CheckResult & { ping?: number; quality: ConnectionStateQuality };
+  // whether the ICE servers could be reached, and the types of ICE candidates
+  // that were gathered from them
+  connectivity?: CheckResult & { candidateTypes: RTCIceCandidateType[] };
+};
+
+export type PreCallCheckOptions = {
+  camera: boolean;
+  microphone: boolean;
+  // time in ms to listen to the microphone
+  levelDuration: number;
+  // level below which the microphone seems silent, between 0 and 1
+  minLevel: number;
+  // number of pings to measure latency with, and the time in ms between them
+  pings: number;
+  pingInterval: number;
+  connectivity: boolean;
+  // the STUN and TURN servers of the deployment, to gather candidates from;
+  // the connectivity check is skipped without them. Use iceTransportPolicy
+  // "relay" to only try TURN.
+  iceServers: RTCIceServer[];
+  iceTransportPolicy: RTCIceTransportPolicy;
+  // time in ms to wait for the server and for candidates to be gathered
+  timeout: number;
+};
+
+export const defaultPreCallCheckOptions: PreCallCheckOptions = {
+  camera: true,
+  microphone: true,
+  levelDuration: 2000,
+  minLevel: 0.01,
+  pings: 5,
+  pingInterval: 200,
+  connectivity: true,
+  iceServers: [],
+  iceTransportPolicy: "all",
+  timeout: 10000,
+};
+
+const outcomes: CheckOutcome[] = ["pass", "warn", "fail"];
+
+function worst(results: (CheckResult | undefined)[]): CheckOutcome {
+  return outcomes[
+    Math.max(0, ...results.map((r) => (r ? outcomes.indexOf(r.outcome) : 0)))
+  ];
+}
+
+function deviceFailure(e: unknown, device: string): string {
+  switch (e instanceof Error && e.name) {
+    case "NotAllowedError":
+      return `Permission to use the ${device} was denied`;
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return `No ${device} was found`;
+    case "NotReadableError":
+      return `The ${device} is in use by another application`;
+    default:
+      return e instanceof Error ? e.message : `The ${device} failed`;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// resolves with undefined if the promise takes longer than ms
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number
+): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(undefined), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * PreCallCheck diagnoses devices and the network before joining a call: camera
+ * and microphone permissions, microphone levels, signalling latency to the
+ * server, and whether media can get through to the deployment's ICE servers.
+ */
+export default class PreCallCheck {
+  private url?: string;
+  private options: PreCallCheckOptions;
+  private deviceManager: MediaDeviceManager;
+
+  /**
+   * @param url the server of the call, whose latency is measured if given
+   * @param options overrides of defaultPreCallCheckOptions
+   * @param deviceManager captures from the selected devices
+   */
+  constructor(
+    url?: string,
+    options: Partial<PreCallCheckOptions> = {},
+    deviceManager: MediaDeviceManager = new MediaDeviceManager()
+  ) {
+    this.url = url;
+    this.options = { ...defaultPreCallCheckOptions, ...options };
+    this.deviceManager = deviceManager;
+  }
+
+  /**
+   * run performs every check at once, and resolves with the report
+   */
+  async run(): Promise<PreCallReport> {
+    const { camera, microphone, connectivity, iceServers } = this.options;
+    const [cameraResult, microphoneResult, latency, connectivityResult] =
+      await Promise.all([
+        camera ? this.checkCamera() : undefined,
+        microphone ? this.checkMicrophone() : undefined,
+        this.url ? this.checkLatency(this.url) : undefined,
+        connectivity && iceServers.length
+          ? this.checkConnectivity()
+          : undefined,
+      ]);
+
+    const report: PreCallReport = {
+      outcome: worst([
+        cameraResult,
+        microphoneResult,
+        latency,
+        connectivityResult,
+      ]),
+    };
+    if (cameraResult) report.camera = cameraResult;
+    if (microphoneResult) report.microphone = microphoneResult;
+    if (latency) report.latency = latency;
+    if (connectivityResult) report.connectivity = connectivityResult;
+    return report;
+  }
+
+  async checkCamera(): Promise<CheckResult> {
+    let track: MediaStreamTrack;
+    try {
+      track = await this.deviceManager.getTrack("videoinput");
+    } catch (e) {
+      return { outcome: "fail", detail: deviceFailure(e, "camera") };
+    }
+
+    const { width, height } = track.getSettings();
+    track.stop();
+    if (width && height && (width < 320 || height < 240))
+      return {
+        outcome: "warn",
+        detail: `The camera only captures ${width}x${height}`,
+      };
+    return { outcome: "pass", detail: "The camera works" };
+  }
+
+  async checkMicrophone(): Promise<NonNullable<PreCallReport["microphone"]>> {
+    let track: MediaStreamTrack;
+    try {
+      track = await this.deviceManager.getTrack("audioinput");
+    } catch (e) {
+      return { outcome: "fail", detail: deviceFailure(e, "microphone") };
+    }
+
+    try {
+      if (!AudioLevelMonitor.supported)
+        return { outcome: "pass", detail: "The microphone level is unknown" };
+
+      const level = await this.measureLevel(track);
+      return level < this.options.minLevel
+        ? { outcome: "warn", detail: "The microphone seems silent", level }
+        : { outcome: "pass", detail: "The microphone works", level };
+    } finally {
+      track.stop();
+    }
+  }
+
+  private async measureLevel(track: MediaStreamTrack): Promise<number> {
+    const stream = new MediaStream();
+    stream.addTrack(track);
+
+    let level = 0;
+    const monitor = new AudioLevelMonitor(100);
+    monitor.emitter.on("levels", ({ microphone = 0 }) => {
+      level = Math.max(level, microphone);
+    });
+    monitor.sync({ microphone: stream });
+    monitor.start();
+    await sleep(this.options.levelDuration);
+    monitor.stop();
+    return level;
+  }
+
+  /**
+   * checkLatency pings the server like ConnectionMonitor does during a call
+   */
+  async checkLatency(
+    url: string
+  ): Promise<NonNullable<PreCallReport["latency"]>> {
+    const { pings, pingInterval, timeout } = this.options;
+    const unreachable = {
+      outcome: "fail" as const,
+      detail: "The server could not be reached",
+      quality: ConnectionStateQuality.unknown,
+    };
+
+    // the socket keeps trying to connect until it is closed
+    const client = Client.open(url, {
+      connectionMonitor: { interval: pingInterval, minSamples: pings },
+    });
+    try {
+      const connected = await withTimeout(
+        client.waitFor("connect").then(() => true),
+        timeout
+      );
+      if (!connected) return unreachable;
+
+      const monitor = client.connectionMonitor;
+      let samples = 0;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, timeout);
+        monitor.emitter.on("ping", () => {
+          if (++samples < pings) return;
+          clearTimeout(timer);
+          resolve();
+        });
+        monitor.start();
+      });
+      monitor.stop();
+
+      if (!samples)
+        return { ...unreachable, detail: "The server did not respond" };
+      const { quality, ping } = monitor.quality;
+      switch (quality) {
+        case ConnectionStateQuality.excellent:
+        case ConnectionStateQuality.good:
+          return {
+            outcome: "pass",
+            detail: `Latency is ${quality}`,
+            ping,
+            quality,
+          };
+        case ConnectionStateQuality.bad:
+          return {
+            outcome: "fail",
+            detail: "Latency is too high",
+            ping,
+            quality,
+          };
+        case ConnectionStateQuality.unknown:
+          return {
+            outcome: "warn",
+            detail: "The server responded too slowly to measure latency",
+            quality,
+          };
+        default:
+          return {
+            outcome: "warn",
+            detail: `Latency is ${quality}`,
+            ping,
+            quality,
+          };
+      }
+    } finally {
+      client.close();
+    }
+  }
+
+  /**
+   * checkConnectivity gathers ICE candidates from the ICE servers. A server
+   * reflexive candidate shows that UDP gets through to a STUN server, and a
+   * relay candidate that media can be relayed through TURN. Without either,
+   * media is unlikely to reach the media server.
+   */
+  async checkConnectivity(): Promise<
+    NonNullable<PreCallReport["connectivity"]>
+  > {
+    if (typeof RTCPeerConnection === "undefined")
+      return {
+        outcome: "fail",
+        detail: "WebRTC is unavailable",
+        candidateTypes: [],
+      };
+
+    const { iceServers, iceTransportPolicy, timeout } = this.options;
+    if (!iceServers.length)
+      return {
+        outcome: "warn",
+        detail: "No ICE servers were given to check media connectivity with",
+        candidateTypes: [],
+      };
+
+    const connection = new RTCPeerConnection({
+      iceServers,
+      iceTransportPolicy,
+    });
+    const candidateTypes = new Set<RTCIceCandidateType>();
+    const gathered = new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, timeout);
+      connection.onicecandidate = ({ candidate }) => {
+        if (candidate) {
+          if (candidate.type) candidateTypes.add(candidate.type);
+          return;
+        }
+        // gathering is complete
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+
+    try {
+      connection.createDataChannel("connectivity");
+      await connection.setLocalDescription(await connection.createOffer());
+      await gathered;
+
+      const types = Array.from(candidateTypes);
+      if (types.some((t) => t === "srflx"))
+        return {
+          outcome: "pass",
+          detail: "The ICE servers can be reached over UDP",
+          candidateTypes: types,
+        };
+      if (types.some((t) => t === "relay"))
+        return {
+          outcome: "pass",
+          detail: "Media can be relayed through TURN",
+          candidateTypes: types,
+        };
+      return {
+        outcome: "fail",
+        detail: "The ICE servers could not be reached; UDP may be blocked",
+        candidateTypes: types,
+      };
+    } catch (e) {
+      return {
+        outcome: "fail",
+        detail: e instanceof Error ? e.message : "WebRTC failed",
+        candidateTypes: Array.from(candidateTypes),
+      };
+    } finally {
+      connection.close();
+    }
+  }
+}
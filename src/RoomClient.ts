@@ -1,27 +1,75 @@
 import * as mediasoupClient from "mediasoup-client";
 import {
+  ConnectionState,
   Consumer,
+  Device,
   DtlsParameters,
   MediaKind,
   Producer,
-  ProducerOptions,
   Transport,
+  TransportOptions,
 } from "mediasoup-client/lib/types";
 import mitt, { Emitter } from "mitt";
 import {
+  AuditEntry,
   CallStatus,
   ConnectionStateQuality,
   DisconnectReason,
+  MessageRecipient,
+  MessageScreening,
   OutputConnectionState,
   ProducerLabel,
   PRODUCER_UPDATE_REASONS,
   PublishedConsumerInfo,
   PublishedRoomState,
   Role,
+  RoomAdmission,
+  Stage,
+  TextMessage,
   User,
   UserStatus,
+  WaitingEntrant,
+  WebRtcInfo,
 } from "./API";
-import Client from "./Client";
+import AudioLevelMonitor from "./AudioLevelMonitor";
+import CallTimeline, { TimelineEntry, TimelineEventType } from "./CallTimeline";
+import CallTimers, {
+  CallTimersOptions,
+  TimerState,
+  TimerWarning,
+} from "./CallTimers";
+import { CallAction, resolveCapabilities } from "./capabilities";
+import ChatLog, { Message, MessageModeration } from "./ChatLog";
+import Client, { ClientOptions } from "./Client";
+import { QualityEvents } from "./ConnectionMonitor";
+import {
+  AdmissionDeniedError,
+  ConnectAbortedError,
+  MessageBlockedError,
+  PermissionError,
+} from "./errors";
+import LayerManager, {
+  ConsumerHints,
+  LayerSelectionOptions,
+} from "./LayerManager";
+import MessageModerator, {
+  ModerationOptions,
+  ModerationResult,
+} from "./MessageModerator";
+import {
+  applyProducerProfile,
+  ProducerPreset,
+  producerPresets,
+  ProducerProfile,
+  ProducerProfiles,
+  resolveProducerProfiles,
+} from "./producerProfiles";
+import {
+  estimateQuality,
+  mergeQualityThresholds,
+  QualityThresholds,
+} from "./qualityEstimator";
+import StatsCollector, { CallStats, StatsSources } from "./StatsCollector";
 
 const unknownConnectionState = {
   quality: ConnectionStateQuality.unknown,
@@ -29,42 +77,6 @@ const unknownConnectionState = {
   badConnection: false,
 };
 
-const config: Record<ProducerLabel, ProducerOptions> = {
-  [ProducerLabel.screenshare]: {
-    encodings: [
-      {
-        rid: "r0",
-        maxBitrate: 900000,
-      },
-    ],
-    codecOptions: {},
-  },
-  [ProducerLabel.video]: {
-    encodings: [
-      {
-        rid: "r0",
-        maxBitrate: 50000,
-        maxFramerate: 10,
-        scalabilityMode: "L1T3",
-      },
-      {
-        rid: "r1",
-        maxBitrate: 300000,
-        scalabilityMode: "L1T3",
-      },
-      {
-        rid: "r2",
-        maxBitrate: 900000,
-        scalabilityMode: "L1T3",
-      },
-    ],
-    codecOptions: {
-      videoGoogleStartBitrate: 1000,
-    },
-  },
-  [ProducerLabel.audio]: {},
-};
-
 export type Peer = {
   peerId: string;
   user: User;
@@ -83,18 +95,226 @@ export type Peer = {
   connectionState: OutputConnectionState;
 };
 
+/**
+ * ConnectOptions tune the behavior of a RoomClient for a deployment.
+ */
+export type ConnectOptions = ClientOptions & {
+  // time in ms to wait for the socket to reconnect and resume the session
+  // before giving up and reporting a disconnect
+  resumeGracePeriod?: number;
+  // encoding profiles for local producers, by preset name or per label
+  producerProfiles?: ProducerPreset | Partial<ProducerProfiles>;
+  // thresholds for automatically selecting simulcast layers to receive
+  layerSelection?: Partial<LayerSelectionOptions>;
+  // time in ms between collections of WebRTC stats, while they are watched
+  statsInterval?: number;
+  // boundaries of each connection quality for media stats
+  qualityThresholds?: Partial<QualityThresholds>;
+  // records the history of the call, and may be shared across reconnections
+  timeline?: CallTimeline;
+  // holds the messages of the call, and may be shared across reconnections
+  chat?: ChatLog;
+  // screens messages before they are sent and before they are shown
+  moderation?: ModerationOptions;
+  timers?: Partial<CallTimersOptions>;
+  // called with the queue position while waiting to be admitted
+  onWaiting?: (position: number) => void;
+  // aborts connecting, e.g. while waiting to be admitted, closing the socket
+  signal?: AbortSignal;
+  // the STUN and TURN servers of the deployment, for media transports and
+  // the pre-call connectivity check
+  iceServers?: RTCIceServer[];
+  iceTransportPolicy?: RTCIceTransportPolicy;
+};
+
+type IceOptions = Pick<TransportOptions, "iceServers" | "iceTransportPolicy">;
+
+const DEFAULT_RESUME_GRACE_PERIOD = 15000;
+
+// the minimum volume, between 0 and 1, at which a peer is considered speaking
+const ACTIVE_SPEAKER_THRESHOLD = 0.03;
+const AUDIO_LEVEL_INTERVAL_MS = 250;
+const DEFAULT_STATS_INTERVAL = 2000;
+
+// a disconnected transport often recovers on its own, so give it a moment
+// before restarting ICE. failed transports are restarted immediately.
+const ICE_RESTART_DELAY_MS = 2000;
+// failed restarts are retried with backoff, after which the session is
+// rebuilt from scratch
+const MAX_ICE_RESTART_ATTEMPTS = 3;
+
+export type RaisedHand = {
+  peerId: string;
+  user: User;
+  raisedAt: Date;
+};
+
+export type TransportStates = {
+  producer?: ConnectionState;
+  consumer: ConnectionState;
+};
+
+// a message stopped by moderation
+export type BlockedMessage = {
+  direction: "outgoing" | "incoming";
+  user: User;
+  to?: MessageRecipient;
+  // the user's own unredacted text, missing for incoming messages
+  contents?: string;
+  reasons: string[];
+};
+
+// a change of the call status, announced once per transition
+export type CallStatusChange = {
+  previous?: CallStatus;
+  status: CallStatus;
+};
+
 type Events = {
-  textMessage: { user: User; contents: string };
+  textMessage: Message;
+  messageBlocked: BlockedMessage;
   timer: { name: string; msRemaining: number; msElapsed: number };
-  peers: Peer[];
+  timers: Record<string, TimerState>;
+  timerWarning: TimerWarning;
+  timerExpired: string;
+  peers: Record<string, Peer>;
   localProducers: Partial<
     Record<ProducerLabel, { stream: MediaStream; paused: boolean }>
   >;
   status: CallStatus;
+  statusChange: CallStatusChange;
+  locked: boolean;
+  stage: Stage;
+  // entrants waiting to be admitted, oldest first
+  entrants: WaitingEntrant[];
+  handRaised: RaisedHand;
+  handLowered: RaisedHand;
+  // oldest first
+  handQueue: RaisedHand[];
+  warning: { from: User; message: string };
+  auditEntry: AuditEntry;
   self: Peer;
   disconnect: DisconnectReason;
+  reconnecting: string;
+  reconnected: undefined;
+  transportStates: TransportStates;
+  audioLevels: Record<string, number>;
+  activeSpeaker: string | undefined;
+  stats: CallStats;
+  // failures of work in the background, e.g. collecting stats
+  error: Error;
 };
 
+function summarizeModeration({
+  flagged,
+  redacted,
+  reasons,
+}: ModerationResult): MessageModeration | undefined {
+  return flagged || redacted ? { flagged, redacted, reasons } : undefined;
+}
+
+function screen(
+  originalContents: string,
+  { flagged, redacted, reasons }: ModerationResult
+): MessageScreening | undefined {
+  if (!flagged && !redacted) return;
+  return {
+    flagged,
+    redacted,
+    reasons,
+    ...(redacted ? { originalContents } : {}),
+  };
+}
+
+// the sender's screening, as the moderation of the contents we were sent
+function screeningResult({
+  contents,
+  screening,
+}: TextMessage): ModerationResult | undefined {
+  if (!screening) return;
+  return {
+    contents,
+    blocked: false,
+    redacted: screening.redacted,
+    flagged: screening.flagged,
+    reasons: screening.reasons,
+  };
+}
+
+function combineModeration(
+  sender: ModerationResult,
+  receiver: ModerationResult
+): ModerationResult {
+  return {
+    contents: receiver.contents,
+    blocked: receiver.blocked,
+    redacted: sender.redacted || receiver.redacted,
+    flagged: sender.flagged || receiver.flagged,
+    reasons: [...sender.reasons, ...receiver.reasons],
+  };
+}
+
+// this handler is necessary to finish connecting a transport
+// https://mediasoup.org/documentation/v3/mediasoup-client/api/#transport-on-connect
+const finishTransportConnection =
+  (client: Client, transport: Transport) =>
+  (
+    { dtlsParameters }: { dtlsParameters: DtlsParameters },
+    onSuccess: () => void,
+    onFailure: (e: unknown) => void
+  ) => {
+    client
+      .emit("establishDtls", {
+        dtlsParameters,
+        transportId: transport.id,
+      })
+      .then(onSuccess, onFailure);
+  };
+
+// resolves once a monitor or host admits us from the waiting room
+function waitForAdmission(
+  client: Client,
+  position: number,
+  onWaiting?: (position: number) => void,
+  signal?: AbortSignal
+): Promise<RoomAdmission> {
+  if (signal?.aborted) return Promise.reject(new ConnectAbortedError());
+  onWaiting?.(position);
+  return new Promise((resolve, reject) => {
+    const handlePosition = ({ position }: { position: number }) =>
+      onWaiting?.(position);
+    const handleAdmitted = (admission: RoomAdmission) => {
+      stopWaiting();
+      resolve(admission);
+    };
+    const handleDenied = ({ reason }: { reason?: string }) => {
+      stopWaiting();
+      reject(new AdmissionDeniedError(reason));
+    };
+    const handleDisconnect = () => {
+      stopWaiting();
+      reject(new Error("Disconnected while waiting to be admitted"));
+    };
+    const handleAbort = () => {
+      stopWaiting();
+      reject(new ConnectAbortedError());
+    };
+    const stopWaiting = () => {
+      client.off("waitingRoom", handlePosition);
+      client.off("admitted", handleAdmitted);
+      client.off("denied", handleDenied);
+      client.off("disconnect", handleDisconnect);
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    client.on("waitingRoom", handlePosition);
+    client.on("admitted", handleAdmitted);
+    client.on("denied", handleDenied);
+    client.on("disconnect", handleDisconnect);
+    signal?.addEventListener("abort", handleAbort);
+  });
+}
+
 class PromiseQueue {
   queue: Promise<void> = Promise.resolve();
 
@@ -116,8 +336,15 @@ class RoomClient {
       }
     >
   > = {};
-  private consumers: Map<string, { consumer: Consumer; stream: MediaStream }> =
-    new Map();
+  private consumers: Map<
+    string,
+    {
+      consumer: Consumer;
+      stream: MediaStream;
+      peerId: string;
+      label: ProducerLabel;
+    }
+  > = new Map();
   public user: {
     id: string;
     role: Role;
@@ -127,7 +354,14 @@ class RoomClient {
   private client: Client;
   private state?: PublishedRoomState;
 
+  private device: Device;
+  private iceOptions: IceOptions;
   private producerTransport: Transport | null;
+  private raisedHands: Map<string, RaisedHand> = new Map();
+
+  // whether we were promoted to the webinar stage
+  private onStage = false;
+  private callStatus?: CallStatus;
   private consumerTransport: Transport;
 
   private emitter: Emitter<Events>;
@@ -135,24 +369,121 @@ class RoomClient {
 
   private fruxEnabled = false;
 
+  private producerProfiles: ProducerProfiles;
+  private layerManager: LayerManager;
+
+  private audioLevelMonitor = new AudioLevelMonitor(AUDIO_LEVEL_INTERVAL_MS);
+  private serverAudioLevels = false;
+  private serverActiveSpeaker = false;
+  public activeSpeakerPeerId?: string;
+
+  private statsCollector: StatsCollector;
+  private statsWatchers = 0;
+
+  private qualityThresholds: QualityThresholds;
+  private pingQuality: QualityEvents["quality"] = {
+    quality: ConnectionStateQuality.unknown,
+    ping: NaN,
+  };
+  private reportedQuality?: ConnectionStateQuality;
+  private stopWatchingQualityStats?: () => void;
+
+  private timeline: CallTimeline;
+  private chat: ChatLog;
+  private moderator: MessageModerator;
+  // how outgoing messages were screened, until the server acknowledges them
+  private screenings = new Map<string, MessageScreening>();
+  private callTimers: CallTimers;
+  private capabilities: Set<CallAction>;
+
+  private resumeToken?: string;
+  private resumeGracePeriod: number;
+  private resumeTimer?: ReturnType<typeof setTimeout>;
+
+  private iceRestarts: Set<string> = new Set();
+  private iceRestartAttempts: Map<string, number> = new Map();
+  private iceRestartTimers: Map<string, ReturnType<typeof setTimeout>> =
+    new Map();
+
   protected constructor({
     client,
+    device,
     producerTransport,
     consumerTransport,
     role,
     userId,
     status,
+    resumeToken,
+    capabilities,
+    resumeGracePeriod,
+    producerProfiles,
+    layerSelection,
+    statsInterval,
+    qualityThresholds,
+    timeline,
+    chat,
+    moderator,
+    callTimers,
+    iceOptions,
   }: {
     client: Client;
+    device: Device;
     producerTransport: Transport | null;
     consumerTransport: Transport;
     role: Role;
     userId: string;
     status: UserStatus[];
+    resumeToken?: string;
+    capabilities?: CallAction[];
+    resumeGracePeriod: number;
+    producerProfiles: ProducerProfiles;
+    layerSelection?: Partial<LayerSelectionOptions>;
+    statsInterval: number;
+    qualityThresholds: QualityThresholds;
+    timeline: CallTimeline;
+    chat: ChatLog;
+    moderator: MessageModerator;
+    callTimers: CallTimers;
+    iceOptions: IceOptions;
   }) {
     this.client = client;
+    this.device = device;
+    this.iceOptions = iceOptions;
     this.producerTransport = producerTransport;
     this.consumerTransport = consumerTransport;
+    this.resumeToken = resumeToken;
+    this.capabilities = resolveCapabilities(role, capabilities);
+    this.resumeGracePeriod = resumeGracePeriod;
+    this.producerProfiles = producerProfiles;
+    this.qualityThresholds = qualityThresholds;
+    this.timeline = timeline;
+    this.chat = chat;
+    this.moderator = moderator;
+    this.callTimers = callTimers;
+    this.callTimers.emitter.on("timers", (timers) =>
+      this.emitter.emit("timers", timers)
+    );
+    this.callTimers.emitter.on("warning", (warning) =>
+      this.emitter.emit("timerWarning", warning)
+    );
+    this.callTimers.emitter.on("expired", (name) =>
+      this.emitter.emit("timerExpired", name)
+    );
+    this.layerManager = new LayerManager(
+      (consumerId, layers) =>
+        this.setPreferredSimulcastLayer({ consumerId, ...layers }),
+      layerSelection
+    );
+    this.statsCollector = new StatsCollector(
+      () => this.statsSources(),
+      statsInterval
+    );
+    this.statsCollector.emitter.on("stats", (stats) =>
+      this.emitter.emit("stats", stats)
+    );
+    this.statsCollector.emitter.on("error", (error) =>
+      this.emitter.emit("error", error)
+    );
 
     this.user = {
       id: userId,
@@ -163,58 +494,297 @@ class RoomClient {
 
     this.emitter = mitt();
 
-    // integrate produce event with the server
-    // https://mediasoup.org/documentation/v3/mediasoup-client/api/#transport-on-produce
-    producerTransport?.on(
-      "produce",
-      async ({ appData, kind, rtpParameters }, callback) => {
-        const { producerId } = await client.emit("produce", {
-          kind,
-          rtpParameters,
-          label: appData.label,
-          paused: appData.startPaused,
-        });
+    // recover transports that lose connectivity while the socket stays up
+    this.watchTransport(consumerTransport);
+    if (producerTransport) this.prepareProducerTransport(producerTransport);
 
-        callback({ id: producerId });
-      }
-    );
-
-    client.on("textMessage", ({ from, contents }) => {
-      this.emitter.emit("textMessage", { user: from, contents });
-    });
+    client.on("textMessage", (message) => this.receiveMessage(message, true));
 
     client.on("timer", ({ name, msRemaining, msElapsed }) => {
+      this.callTimers.update(name, { msRemaining, msElapsed });
       this.emitter.emit("timer", { name, msRemaining, msElapsed });
     });
 
+    // Prefer the server's audio observers, and fall back on measuring locally
+    client.on("audioLevels", (volumes) => {
+      if (!this.serverAudioLevels) {
+        this.serverAudioLevels = true;
+        this.audioLevelMonitor.stop();
+      }
+      this.receiveAudioLevels(
+        Object.fromEntries(
+          volumes.map(({ peerId, volume }) => [
+            peerId,
+            Math.pow(10, volume / 20),
+          ])
+        )
+      );
+    });
+
+    client.on("activeSpeaker", ({ peerId }) => {
+      this.serverActiveSpeaker = true;
+      this.setActiveSpeaker(peerId);
+    });
+
+    this.audioLevelMonitor.emitter.on("levels", (levels) =>
+      this.receiveAudioLevels(levels)
+    );
+    this.audioLevelMonitor.start();
+
     client.on("state", async (state: PublishedRoomState) => {
       this.receiveState(state);
       await this.checkLocalMute();
       this.emitState();
     });
 
+    client.on("warning", (warning) => this.emitter.emit("warning", warning));
+    client.on("auditEntry", (entry) => this.emitter.emit("auditEntry", entry));
+
     // Respond to intentional disconnect
     client.on("manualDisconnect", (reason: DisconnectReason) => {
+      this.timeline.record({ type: "disconnect", reason });
       this.emitter.emit("disconnect", reason);
     });
 
-    // Respond to unintentional disconnect
+    // Respond to unintentional disconnect. socket.io will try to reconnect,
+    // and if it does so in time we resume the session in place.
     client.on("disconnect", (reason: string) => {
-      if (!["io server disconnect", "io client disconnect"].includes(reason)) {
+      if (["io server disconnect", "io client disconnect"].includes(reason))
+        return;
+
+      if (!this.resumeToken) {
+        this.timeline.record({
+          type: "disconnect",
+          reason: DisconnectReason.error,
+        });
         this.emitter.emit("disconnect", DisconnectReason.error);
+        return;
       }
+
+      if (this.resumeTimer) return; // already waiting
+      this.resumeTimer = setTimeout(
+        () => this.abandonSession(),
+        this.resumeGracePeriod
+      );
+      this.timeline.record({ type: "reconnecting", reason });
+      this.emitter.emit("reconnecting", reason);
+    });
+
+    client.on("connect", () => {
+      if (this.resumeTimer) void this.resumeSession();
     });
 
+    this.startConnectionMonitoring();
+
+    // now that our handlers are prepared, we're reading to begin consuming
+    client
+      .emit("finishConnecting", {})
+      .catch((e) => console.error("Failed to finish connecting", e));
+
+    this.loadMessageHistory();
+  }
+
+  // Catches up on messages sent before we joined, or while we were away.
+  // These are not announced as new.
+  private loadMessageHistory() {
+    this.client
+      .emit("messageHistory", { after: this.chat.lastId })
+      .then(({ messages }) =>
+        messages.forEach((m) => this.receiveMessage(m, false))
+      )
+      .catch((e) => console.error("Failed to load message history", e));
+  }
+
+  private startConnectionMonitoring() {
     // Everyone always monitors connection
-    if (role !== Role.monitor) {
-      client.connectionMonitor.start();
-      client.connectionMonitor.emitter.on("quality", async (currentQuality) => {
-        this.client.emit("connectionState", currentQuality);
+    if (this.user.role === Role.monitor) return;
+
+    this.client.connectionMonitor.start();
+    this.client.connectionMonitor.emitter.off("quality", this.handlePing);
+    this.client.connectionMonitor.emitter.on("quality", this.handlePing);
+    this.client.connectionMonitor.emitter.off("ping", this.recordPing);
+    this.client.connectionMonitor.emitter.on("ping", this.recordPing);
+    if (!this.stopWatchingQualityStats)
+      this.stopWatchingQualityStats = this.watchStats((stats) =>
+        this.updateQuality(stats)
+      );
+  }
+
+  private stopConnectionMonitoring() {
+    this.client.connectionMonitor.stop();
+    this.stopWatchingQualityStats?.();
+    this.stopWatchingQualityStats = undefined;
+  }
+
+  private recordPing = (ms: number) => {
+    this.timeline.record({ type: "ping", ms });
+  };
+
+  private handlePing = (pingQuality: QualityEvents["quality"]) => {
+    this.pingQuality = pingQuality;
+    this.updateQuality(this.statsCollector.latest);
+  };
+
+  // Quality combines signalling latency with media stats, and is reported
+  // to the server whenever it changes.
+  private updateQuality(stats?: CallStats) {
+    const quality = estimateQuality(
+      {
+        ping: this.pingQuality.quality,
+        stats,
+        current: this.reportedQuality,
+      },
+      this.qualityThresholds
+    );
+    this.layerManager.setQuality(quality);
+
+    if (quality === this.reportedQuality) return;
+    this.reportedQuality = quality;
+    this.timeline.record({
+      type: "quality",
+      quality,
+      ping: this.pingQuality.ping,
+    });
+    this.client
+      .emit("connectionState", { quality, ping: this.pingQuality.ping })
+      .catch((e) => console.error("Failed to report connection state", e));
+  }
+
+  // === Session resumption ===
+  private async resumeSession() {
+    const resumeToken = this.resumeToken;
+    if (!resumeToken) return;
+
+    try {
+      const { consumerIceParameters, producerIceParameters, ...next } =
+        await this.client.emit("resume", { resumeToken });
+
+      // the grace period may have elapsed while we were waiting
+      if (!this.resumeTimer) return;
+
+      // keep the existing transports, but restart ICE on the new path
+      await this.consumerTransport.restartIce({
+        iceParameters: consumerIceParameters,
       });
+      if (this.producerTransport && producerIceParameters) {
+        await this.producerTransport.restartIce({
+          iceParameters: producerIceParameters,
+        });
+      }
+
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = undefined;
+      this.resumeToken = next.resumeToken;
+
+      // the connection monitor resets itself on disconnect
+      this.startConnectionMonitoring();
+      this.timeline.record({ type: "reconnected" });
+      this.emitter.emit("reconnected", undefined);
+
+      await this.client.emit("finishConnecting", {});
+      this.loadMessageHistory();
+    } catch (e) {
+      console.error("Failed to resume session", e);
+      this.abandonSession();
     }
+  }
 
-    // now that our handlers are prepared, we're reading to begin consuming
-    void client.emit("finishConnecting", {});
+  // === Transport recovery ===
+  get transportStates(): TransportStates {
+    return {
+      consumer: this.consumerTransport.connectionState,
+      ...(this.producerTransport
+        ? { producer: this.producerTransport.connectionState }
+        : {}),
+    };
+  }
+
+  private watchTransport(transport: Transport) {
+    transport.on("connectionstatechange", (state: ConnectionState) => {
+      this.emitter.emit("transportStates", this.transportStates);
+
+      const pending = this.iceRestartTimers.get(transport.id);
+      if (pending) {
+        clearTimeout(pending);
+        this.iceRestartTimers.delete(transport.id);
+      }
+
+      if (state === "connected") {
+        this.iceRestartAttempts.delete(transport.id);
+      } else if (state === "failed") {
+        this.scheduleIceRestart(transport, 0);
+      } else if (state === "disconnected") {
+        // the connection may come back on its own
+        this.scheduleIceRestart(transport, ICE_RESTART_DELAY_MS);
+      }
+    });
+  }
+
+  // Every restart since the transport was last connected counts as an
+  // attempt, whether it failed or ICE failed again afterwards. Retries back
+  // off, and the session is rebuilt once the attempts run out.
+  private scheduleIceRestart(transport: Transport, firstDelay: number) {
+    const attempts = this.iceRestartAttempts.get(transport.id) || 0;
+    if (attempts >= MAX_ICE_RESTART_ATTEMPTS) {
+      this.iceRestartAttempts.delete(transport.id);
+      this.timeline.record({
+        type: "disconnect",
+        reason: DisconnectReason.error,
+      });
+      this.emitter.emit("disconnect", DisconnectReason.error);
+      return;
+    }
+
+    const delay = attempts
+      ? ICE_RESTART_DELAY_MS * 2 ** (attempts - 1)
+      : firstDelay;
+    if (!delay) {
+      void this.restartIce(transport);
+      return;
+    }
+    this.iceRestartTimers.set(
+      transport.id,
+      setTimeout(() => {
+        this.iceRestartTimers.delete(transport.id);
+        if (["disconnected", "failed"].includes(transport.connectionState))
+          void this.restartIce(transport);
+      }, delay)
+    );
+  }
+
+  private async restartIce(transport: Transport) {
+    // resuming a session restarts ICE on its own
+    if (this.resumeTimer) return;
+    if (transport.closed || this.iceRestarts.has(transport.id)) return;
+
+    this.iceRestarts.add(transport.id);
+    this.iceRestartAttempts.set(
+      transport.id,
+      (this.iceRestartAttempts.get(transport.id) || 0) + 1
+    );
+    try {
+      const { iceParameters } = await this.client.emit("restartIce", {
+        transportId: transport.id,
+      });
+      await transport.restartIce({ iceParameters });
+    } catch (e) {
+      console.error("Failed to restart ICE", e);
+      this.scheduleIceRestart(transport, ICE_RESTART_DELAY_MS);
+    } finally {
+      this.iceRestarts.delete(transport.id);
+    }
+  }
+
+  private abandonSession() {
+    if (!this.resumeTimer) return;
+    clearTimeout(this.resumeTimer);
+    this.resumeTimer = undefined;
+    this.resumeToken = undefined;
+    this.timeline.record({
+      type: "disconnect",
+      reason: DisconnectReason.error,
+    });
+    this.emitter.emit("disconnect", DisconnectReason.error);
   }
 
   enableFrux() {
@@ -222,11 +792,11 @@ class RoomClient {
   }
 
   enableConnectionMonitoring() {
-    this.client.connectionMonitor.start();
+    this.startConnectionMonitoring();
   }
 
   disableConnectionMonitoring() {
-    this.client.connectionMonitor.stop();
+    this.stopConnectionMonitoring();
   }
 
   on<E extends keyof Events>(name: E, handler: (data: Events[E]) => void) {
@@ -245,6 +815,80 @@ class RoomClient {
     this.client.connectionMonitor.stopSimulatingPingLatency();
   }
 
+  // === Timers ===
+
+  /**
+   * returns every timer of the call as of now
+   */
+  get timers(): Record<string, TimerState> {
+    return this.callTimers.timers;
+  }
+
+  // === Raised hands ===
+
+  /**
+   * returns raised hands in the order they were raised
+   */
+  get handQueue(): RaisedHand[] {
+    return Array.from(this.raisedHands.values()).sort(
+      (a, b) => a.raisedAt.getTime() - b.raisedAt.getTime()
+    );
+  }
+
+  private updateHandQueue(state: PublishedRoomState) {
+    const previous = this.raisedHands;
+    this.raisedHands = new Map();
+    Object.values(state.participants).forEach(
+      ({ peerId, user, status, handRaisedAt }) => {
+        if (!status.includes(UserStatus.HandRaised)) return;
+        this.raisedHands.set(peerId, {
+          peerId,
+          user,
+          // older servers don't say when, so go by when we first saw it
+          raisedAt: handRaisedAt
+            ? new Date(handRaisedAt)
+            : previous.get(peerId)?.raisedAt || new Date(),
+        });
+      }
+    );
+
+    const raised = Array.from(this.raisedHands.values()).filter(
+      ({ peerId }) => !previous.has(peerId)
+    );
+    const lowered = Array.from(previous.values()).filter(
+      ({ peerId }) => !this.raisedHands.has(peerId)
+    );
+    raised.forEach((hand) => this.emitter.emit("handRaised", hand));
+    lowered.forEach((hand) => this.emitter.emit("handLowered", hand));
+    if (raised.length || lowered.length)
+      this.emitter.emit("handQueue", this.handQueue);
+  }
+
+  private prepareProducerTransport(transport: Transport) {
+    // integrate produce event with the server
+    // https://mediasoup.org/documentation/v3/mediasoup-client/api/#transport-on-produce
+    transport.on(
+      "produce",
+      async ({ appData, kind, rtpParameters }, callback, errback) => {
+        try {
+          const { producerId } = await this.client.emit("produce", {
+            kind,
+            rtpParameters,
+            label: appData.label,
+            paused: appData.startPaused,
+          });
+
+          callback({ id: producerId });
+        } catch (e) {
+          // rejects transport.produce rather than leaving it pending
+          errback(e instanceof Error ? e : new Error(String(e)));
+        }
+      }
+    );
+
+    this.watchTransport(transport);
+  }
+
   async receiveState(state: PublishedRoomState) {
     this.state = state;
 
@@ -256,16 +900,55 @@ class RoomClient {
 
       // Respond to frux
       if (this.fruxEnabled) {
+        const wasBadConnection = this.user.connectionState.badConnection;
         this.user.connectionState = selfReport.connectionState;
 
-        if (
+        const pauseVideo =
           this.user.connectionState.badConnection &&
-          this.localProducers[ProducerLabel.video]?.producer.paused === false
-        ) {
+          this.localProducers[ProducerLabel.video]?.producer.paused === false;
+
+        if (wasBadConnection !== this.user.connectionState.badConnection) {
+          this.timeline.record({
+            type: "frux",
+            badConnection: this.user.connectionState.badConnection,
+            pausedVideo: pauseVideo,
+          });
+        }
+
+        if (pauseVideo) {
           this.pauseProducer(ProducerLabel.video);
         }
       }
     }
+
+    this.updateHandQueue(state);
+
+    Object.entries(state.timers || {}).forEach(([name, timer]) =>
+      this.callTimers.update(name, timer)
+    );
+
+    // Stop publishing when taken off the stage
+    if (state.stage?.onStage.includes(this.user.id)) {
+      this.onStage = true;
+    } else if (this.onStage) {
+      this.stepOffStage();
+    }
+
+    this.updateStatus(state.status);
+  }
+
+  private updateStatus(status: CallStatus) {
+    if (status === this.callStatus) return;
+    const previous = this.callStatus;
+    this.callStatus = status;
+    this.timeline.record({ type: "callStatus", previous, status });
+
+    // Stop publishing once the call is over
+    if (status === CallStatus.ended || status === CallStatus.terminated)
+      this.releaseProducers(true);
+
+    this.emitter.emit("status", status);
+    this.emitter.emit("statusChange", { previous, status });
   }
 
   async emitState() {
@@ -281,31 +964,44 @@ class RoomClient {
       const presentIds = new Set<string>();
 
       // Everyone but self
-      this.emitter.emit(
-        "peers",
-        Object.fromEntries(
-          await Promise.all(
-            Object.entries(state.participants)
-              .filter(([key]) => key !== this.client.socket.id)
-              .map(async ([key, val]) => [
-                key,
-                {
-                  ...val,
-                  consumers: Object.fromEntries(
-                    await Promise.all(
-                      Object.entries(val.consumers).map(
-                        async ([label, data]) => {
-                          presentIds.add(data.id);
-                          return [label, await this.updateOrMakeConsumer(data)];
-                        }
-                      )
-                    )
-                  ),
-                },
-              ])
-          )
+      const peers: Record<string, Peer> = Object.fromEntries(
+        await Promise.all(
+          Object.entries(state.participants)
+            .filter(([key]) => key !== this.client.socket.id)
+            .map(async ([key, val]) => [
+              key,
+              {
+                ...val,
+                consumers: Object.fromEntries(
+                  await Promise.all(
+                    Object.entries(val.consumers).map(async ([label, data]) => {
+                      presentIds.add(data.id);
+                      return [
+                        label,
+                        await this.updateOrMakeConsumer(
+                          data,
+                          key,
+                          label as ProducerLabel
+                        ),
+                      ];
+                    })
+                  )
+                ),
+              },
+            ])
         )
       );
+      this.emitter.emit("peers", peers);
+
+      // Measure peer audio ourselves unless the server does it for us
+      if (!this.serverAudioLevels) {
+        const audioStreams: Record<string, MediaStream> = {};
+        Object.entries(peers).forEach(([key, peer]) => {
+          const audio = peer.consumers[ProducerLabel.audio];
+          if (audio) audioStreams[key] = audio.stream;
+        });
+        this.audioLevelMonitor.sync(audioStreams);
+      }
 
       // Self
       const selfReport = state.participants[this.client.socket.id];
@@ -318,7 +1014,14 @@ class RoomClient {
               Object.entries(selfReport.consumers).map(
                 async ([label, data]) => {
                   presentIds.add(data.id);
-                  return [label, await this.updateOrMakeConsumer(data)];
+                  return [
+                    label,
+                    await this.updateOrMakeConsumer(
+                      data,
+                      selfReport.peerId,
+                      label as ProducerLabel
+                    ),
+                  ];
                 }
               )
             )
@@ -327,20 +1030,127 @@ class RoomClient {
       }
 
       // Room status
-      this.emitter.emit("status", state.status);
+      this.emitter.emit("locked", !!state.locked);
+      this.emitter.emit("stage", state.stage || { onStage: [], invited: [] });
+      this.emitter.emit("entrants", state.waiting || []);
 
       // Clean up missing peers
       Array.from(this.consumers.entries()).forEach(([key, { consumer }]) => {
         if (!presentIds.has(key)) {
           consumer.close();
           this.consumers.delete(key);
+          this.layerManager.remove(key);
         }
       });
     });
   }
 
+  // === Audio levels ===
+  private receiveAudioLevels(levels: Record<string, number>) {
+    this.emitter.emit("audioLevels", levels);
+
+    if (this.serverActiveSpeaker) return;
+
+    const [loudest] = Object.entries(levels)
+      .filter(([_, level]) => level >= ACTIVE_SPEAKER_THRESHOLD)
+      .sort(([_a, a], [_b, b]) => b - a);
+
+    // the last speaker remains active until someone else speaks
+    if (loudest) this.setActiveSpeaker(loudest[0]);
+  }
+
+  private setActiveSpeaker(peerId: string | undefined) {
+    if (this.activeSpeakerPeerId === peerId) return;
+    this.activeSpeakerPeerId = peerId;
+    this.updateSpeakerLayers();
+    this.emitter.emit("activeSpeaker", peerId);
+  }
+
+  // we receive the video of the active speaker in better layers
+  private updateSpeakerLayers() {
+    this.layerManager.setActiveSpeakers(
+      Array.from(this.consumers.entries())
+        .filter(
+          ([_, { peerId, label }]) =>
+            peerId === this.activeSpeakerPeerId && label !== ProducerLabel.audio
+        )
+        .map(([id]) => id)
+    );
+  }
+
+  // === Timeline ===
+
+  /**
+   * getTimeline returns the recorded history of the call
+   */
+  getTimeline(filter?: {
+    types?: TimelineEventType[];
+    since?: number;
+  }): TimelineEntry[] {
+    return this.timeline.entries(filter);
+  }
+
+  /**
+   * exportTimeline serializes the recorded history of the call as JSON, e.g.
+   * to attach to an incident report
+   */
+  exportTimeline(): string {
+    return this.timeline.export();
+  }
+
+  // === Stats ===
+  private statsSources(): StatsSources {
+    return {
+      producers: Object.entries(this.localProducers).map(
+        ([label, { producer }]) => ({
+          label: label as ProducerLabel,
+          producer,
+        })
+      ),
+      consumers: Array.from(this.consumers.values()).map(
+        ({ consumer, peerId, label }) => ({ consumer, peerId, label })
+      ),
+      transports: [
+        { direction: "recv" as const, transport: this.consumerTransport },
+        ...(this.producerTransport
+          ? [{ direction: "send" as const, transport: this.producerTransport }]
+          : []),
+      ],
+    };
+  }
+
+  /**
+   * watchStats collects stats periodically for as long as any handler is
+   * watching them. It returns a function to stop watching.
+   */
+  watchStats(handler: (stats: CallStats) => void): () => void {
+    this.on("stats", handler);
+    this.statsWatchers++;
+    this.statsCollector.start();
+
+    let watching = true;
+    return () => {
+      if (!watching) return;
+      watching = false;
+      this.off("stats", handler);
+      this.statsWatchers--;
+      if (!this.statsWatchers) this.statsCollector.stop();
+    };
+  }
+
+  /**
+   * getStats collects stats once
+   */
+  async getStats(): Promise<CallStats> {
+    return this.statsCollector.collect();
+  }
+
   // === Tracking server status ==
-  private async updateOrMakeConsumer(consumerData: PublishedConsumerInfo) {
+  private async updateOrMakeConsumer(
+    consumerData: PublishedConsumerInfo,
+    peerId: string,
+    label: ProducerLabel
+  ) {
     const result = this.consumers.get(consumerData.id);
     if (result) {
       const { consumer, stream } = result;
@@ -373,7 +1183,10 @@ class RoomClient {
     this.consumers.set(consumerData.id, {
       consumer,
       stream,
+      peerId,
+      label,
     });
+    if (peerId === this.activeSpeakerPeerId) this.updateSpeakerLayers();
 
     return {
       stream,
@@ -412,7 +1225,7 @@ class RoomClient {
       throw new Error(`RoomClient is already producing ${label}`);
 
     const producer = await this.producerTransport.produce({
-      ...config[label],
+      ...this.producerProfiles[label],
       track,
       stopTracks: false,
       appData: { label, startPaused: !track.enabled },
@@ -425,14 +1238,50 @@ class RoomClient {
       producer,
     };
 
+    this.closeProducerWhenEnded(label, track);
+
+    this.emitProducers();
+  }
+
+  /**
+   * replaceTrack swaps the track of a live producer in place, e.g. to switch
+   * cameras or apply a background blur. The producer keeps its id and paused
+   * state, so peers keep their consumers. The caller remains responsible for
+   * stopping the previous track.
+   */
+  async replaceTrack(
+    label: ProducerLabel,
+    track: MediaStreamTrack
+  ): Promise<void> {
+    const localProducer = this.localProducers[label];
+    if (!localProducer) throw new Error(`RoomClient is not producing ${label}`);
+
+    const { producer } = localProducer;
+    await producer.replaceTrack({ track });
+    // a paused producer must not start sending through its new track
+    track.enabled = !producer.paused;
+
+    const stream = new MediaStream();
+    stream.addTrack(track);
+    this.localProducers[label] = { ...localProducer, stream };
+
+    this.closeProducerWhenEnded(label, track);
+
+    this.emitProducers();
+  }
+
+  // A track ends when its device goes away. Only the current track of a
+  // producer may close it, so replaced tracks can end without consequence.
+  private closeProducerWhenEnded(
+    label: ProducerLabel,
+    track: MediaStreamTrack
+  ) {
     track.addEventListener("ended", () => {
       const localProducer = this.localProducers[label];
       if (localProducer && localProducer.producer.track === track) {
         this.closeProducer(label);
       }
     });
-
-    this.emitProducers();
   }
 
   private emitProducers(): void {
@@ -449,6 +1298,24 @@ class RoomClient {
     );
   }
 
+  /**
+   * setProducerProfile changes the encodings used for a label. A live producer
+   * is reconfigured in place, without republishing.
+   */
+  async setProducerProfile(
+    label: ProducerLabel,
+    profile: ProducerProfile | ProducerPreset
+  ): Promise<void> {
+    const resolved =
+      typeof profile === "string" ? producerPresets[profile][label] : profile;
+    this.producerProfiles = { ...this.producerProfiles, [label]: resolved };
+
+    const localProducer = this.localProducers[label];
+    if (!localProducer) return;
+
+    await applyProducerProfile(localProducer.producer, resolved);
+  }
+
   async closeProducer(label: ProducerLabel): Promise<void> {
     const localProducer = this.localProducers[label];
 
@@ -509,56 +1376,335 @@ class RoomClient {
     });
   }
 
+  // === Capabilities ===
+
+  /**
+   * can returns whether the user is allowed to perform an action
+   */
+  can(action: CallAction): boolean {
+    return this.capabilities.has(action);
+  }
+
+  private require(action: CallAction) {
+    if (!this.can(action)) throw new PermissionError(action, this.user.role);
+  }
+
   async terminate() {
+    this.require("terminate");
     await this.client.emit("terminate", {});
   }
 
-  async textMessage(contents: string) {
-    await this.client.emit("textMessage", {
-      contents,
-    });
+  /**
+   * textMessage sends a message to the call, or privately to a user or to
+   * everyone with a role. The message is pending until the server
+   * acknowledges it, and failed if it doesn't.
+   */
+  async textMessage(contents: string, to?: MessageRecipient) {
+    this.require("textMessage");
+    const user = { id: this.user.id, role: this.user.role };
+
+    let shown = contents;
+    let moderation: MessageModeration | undefined;
+    let screening: MessageScreening | undefined;
+    if (this.moderator.enabled) {
+      const result = await this.moderator.moderate(contents, {
+        direction: "outgoing",
+        user,
+        to,
+      });
+      if (result.blocked) {
+        this.emitter.emit("messageBlocked", {
+          direction: "outgoing",
+          user,
+          to,
+          contents,
+          reasons: result.reasons,
+        });
+        throw new MessageBlockedError(result.reasons);
+      }
+      shown = result.contents;
+      moderation = summarizeModeration(result);
+      screening = screen(contents, result);
+    }
+
+    const message = this.chat.add(user, shown, to, moderation);
+    if (screening && message.clientMessageId)
+      this.screenings.set(message.clientMessageId, screening);
+    await this.deliverMessage(message);
+  }
+
+  /**
+   * retryMessage sends a failed message again
+   */
+  async retryMessage(clientMessageId: string) {
+    this.require("textMessage");
+    const message = this.chat.retry(clientMessageId);
+    if (!message) throw new Error(`No failed message ${clientMessageId}`);
+    await this.deliverMessage(message);
+  }
+
+  // Incoming messages are screened when moderation is configured, on top of
+  // the sender's screening. Messages that can't be screened are not shown.
+  private receiveMessage(received: TextMessage, announce: boolean) {
+    const { screening, ...message } = received;
+    // only monitors are relayed the unredacted contents
+    if (this.user.role === Role.monitor && screening?.originalContents)
+      message.contents = screening.originalContents;
+
+    const screened = screeningResult(received);
+    if (!this.moderator.enabled) {
+      this.acceptMessage(message, announce, screened);
+      return;
+    }
+    this.moderator
+      .moderate(message.contents, {
+        direction: "incoming",
+        user: message.from,
+        to: message.to,
+      })
+      .then((result) =>
+        this.acceptMessage(
+          message,
+          announce,
+          screened ? combineModeration(screened, result) : result
+        )
+      )
+      .catch((e) => console.error("Failed to moderate message", e));
+  }
+
+  private acceptMessage(
+    message: TextMessage,
+    announce: boolean,
+    result?: ModerationResult
+  ) {
+    let received: Message | undefined;
+    const moderation = result && summarizeModeration(result);
+    if (!result || (!moderation && !result.blocked)) {
+      received = this.chat.receive(message);
+    } else if (this.user.role === Role.monitor) {
+      // monitors see screened messages in full
+      received = this.chat.receive(message, {
+        flagged: true,
+        redacted: false,
+        reasons: result.reasons,
+      });
+    } else if (result.blocked) {
+      this.emitter.emit("messageBlocked", {
+        direction: "incoming",
+        user: message.from,
+        to: message.to,
+        reasons: result.reasons,
+      });
+    } else {
+      received = this.chat.receive(
+        { ...message, contents: result.contents },
+        moderation
+      );
+    }
+
+    if (received && announce) this.emitter.emit("textMessage", received);
+  }
+
+  private async deliverMessage({ clientMessageId, contents, to }: Message) {
+    if (!clientMessageId) return;
+    const screening = this.screenings.get(clientMessageId);
+    try {
+      const acknowledgement = await this.client.emit("textMessage", {
+        contents,
+        clientMessageId,
+        ...(to ? { to } : {}),
+        ...(screening ? { screening } : {}),
+      });
+      this.screenings.delete(clientMessageId);
+      this.chat.confirm(clientMessageId, acknowledgement);
+    } catch (e) {
+      this.chat.fail(clientMessageId);
+      throw e;
+    }
   }
 
   async remoteAudioMute(targetUserId: string) {
+    this.require("remoteAudioMute");
     await this.client.emit("remoteAudioMute", {
       targetUserId,
     });
   }
 
   async remoteAudioUnmute(targetUserId: string) {
+    this.require("remoteAudioUnmute");
     await this.client.emit("remoteAudioUnmute", {
       targetUserId,
     });
   }
 
   async remoteVideoMute(targetUserId: string) {
+    this.require("remoteVideoMute");
     await this.client.emit("remoteVideoMute", {
       targetUserId,
     });
   }
 
   async remoteVideoUnmute(targetUserId: string) {
+    this.require("remoteVideoUnmute");
     await this.client.emit("remoteVideoUnmute", {
       targetUserId,
     });
   }
 
   async remoteLowerHand(targetUserId: string) {
+    this.require("remoteLowerHand");
     await this.client.emit("remoteLowerHand", {
       targetUserId,
     });
   }
 
+  // === Webinar stage ===
+
+  /**
+   * inviteToStage invites an attendee to publish audio and video
+   */
+  async inviteToStage(targetUserId: string) {
+    this.require("inviteToStage");
+    await this.client.emit("inviteToStage", { targetUserId });
+  }
+
+  /**
+   * removeFromStage demotes an attendee, whose producers then close
+   */
+  async removeFromStage(targetUserId: string) {
+    this.require("removeFromStage");
+    await this.client.emit("removeFromStage", { targetUserId });
+  }
+
+  /**
+   * acceptStageInvitation prepares to publish. Produce once it resolves.
+   */
+  async acceptStageInvitation() {
+    this.require("joinStage");
+    const { producerTransportInfo } = await this.client.emit(
+      "respondToStageInvitation",
+      { accept: true }
+    );
+    if (producerTransportInfo && !this.producerTransport)
+      this.createProducerTransport(producerTransportInfo);
+  }
+
+  async declineStageInvitation() {
+    this.require("joinStage");
+    await this.client.emit("respondToStageInvitation", { accept: false });
+  }
+
+  async leaveStage() {
+    this.require("joinStage");
+    await this.client.emit("leaveStage", {});
+    this.stepOffStage();
+  }
+
+  private createProducerTransport(info: WebRtcInfo) {
+    const transport = this.device.createSendTransport({
+      ...info,
+      ...this.iceOptions,
+    });
+    transport.on("connect", finishTransportConnection(this.client, transport));
+    this.prepareProducerTransport(transport);
+    this.producerTransport = transport;
+    this.emitter.emit("transportStates", this.transportStates);
+  }
+
+  // the server closes our producers, so only local cleanup is needed. Tracks
+  // are stopped once the call is over, and otherwise left to the app.
+  private releaseProducers(stopTracks: boolean) {
+    Object.values(this.localProducers).forEach(({ producer }) => {
+      if (stopTracks) producer.track?.stop();
+      producer.close();
+    });
+    this.localProducers = {};
+    this.emitProducers();
+  }
+
+  private stepOffStage() {
+    this.onStage = false;
+    // the app may keep its camera and microphone for later
+    this.releaseProducers(false);
+
+    this.producerTransport?.close();
+    this.producerTransport = null;
+    this.emitter.emit("transportStates", this.transportStates);
+  }
+
+  // === Monitor console ===
+
+  /**
+   * removeParticipant disconnects a participant from the call
+   */
+  async removeParticipant(targetUserId: string, reason?: string) {
+    this.require("removeParticipant");
+    await this.client.emit("removeParticipant", {
+      targetUserId,
+      ...(reason ? { reason } : {}),
+    });
+  }
+
+  /**
+   * admitEntrant lets an entrant in from the waiting room
+   */
+  async admitEntrant(targetUserId: string) {
+    this.require("admitEntrant");
+    await this.client.emit("admitEntrant", { targetUserId });
+  }
+
+  /**
+   * denyEntrant turns an entrant away from the waiting room
+   */
+  async denyEntrant(targetUserId: string, reason?: string) {
+    this.require("denyEntrant");
+    await this.client.emit("denyEntrant", {
+      targetUserId,
+      ...(reason ? { reason } : {}),
+    });
+  }
+
+  /**
+   * lockRoom prevents anyone else from joining the call
+   */
+  async lockRoom() {
+    this.require("lockRoom");
+    await this.client.emit("lockRoom", {});
+  }
+
+  async unlockRoom() {
+    this.require("unlockRoom");
+    await this.client.emit("unlockRoom", {});
+  }
+
+  /**
+   * warnParticipant shows a warning to one participant only
+   */
+  async warnParticipant(targetUserId: string, message: string) {
+    this.require("warnParticipant");
+    await this.client.emit("warnParticipant", { targetUserId, message });
+  }
+
+  /**
+   * lowerAllHands clears the raise-hand queue
+   */
+  async lowerAllHands() {
+    this.require("lowerAllHands");
+    await this.client.emit("lowerAllHands", {});
+  }
+
   async raiseHand() {
+    this.require("raiseHand");
     await this.client.emit("raiseHand", {});
   }
 
   async lowerHand() {
+    this.require("lowerHand");
     await this.client.emit("lowerHand", {});
   }
 
-  async sendMessage(contents: string) {
-    await this.textMessage(contents);
+  async sendMessage(contents: string, to?: MessageRecipient) {
+    await this.textMessage(contents, to);
   }
 
   async setPreferredSimulcastLayer({
@@ -577,7 +1723,26 @@ class RoomClient {
     });
   }
 
+  /**
+   * setConsumerHints describes how a consumer is rendered, so that the
+   * simulcast layers we receive for it are selected automatically.
+   */
+  setConsumerHints(consumerId: string, hints: Partial<ConsumerHints>) {
+    // only video is simulcast, so audio consumers have no layers to select
+    const entry = this.consumers.get(consumerId);
+    if (!entry || entry.label === ProducerLabel.audio) return;
+    this.layerManager.setHints(consumerId, hints);
+  }
+
   async close(stopTracks?: boolean) {
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    this.resumeTimer = undefined;
+    this.iceRestartTimers.forEach((timer) => clearTimeout(timer));
+    this.iceRestartTimers.clear();
+    this.audioLevelMonitor.stop();
+    this.stopConnectionMonitoring();
+    this.statsCollector.stop();
+    this.callTimers.stop();
     this.client.close();
     this.consumerTransport.close();
     this.producerTransport?.close();
@@ -615,14 +1780,37 @@ class RoomClient {
   }
 
   // === Initial handshake ===
-  static async connect(call: {
-    id: string;
-    url: string;
-    token: string;
-  }): Promise<RoomClient> {
-    const client = await Client.connect(call.url);
-
-    // Request to join the room.
+  static async connect(
+    call: {
+      id: string;
+      url: string;
+      token: string;
+    },
+    options: ConnectOptions = {}
+  ): Promise<RoomClient> {
+    const client = await Client.connect(call.url, options);
+
+    // Request to join the room. When the room has a waiting room, media is
+    // only set up once we are admitted.
+    let admission: RoomAdmission;
+    try {
+      if (options.signal?.aborted) throw new ConnectAbortedError();
+      const joined = await client.emit("join", {
+        token: call.token,
+      });
+      admission =
+        "waiting" in joined
+          ? await waitForAdmission(
+              client,
+              joined.position,
+              options.onWaiting,
+              options.signal
+            )
+          : joined;
+    } catch (e) {
+      client.close();
+      throw e;
+    }
     const {
       role,
       userId,
@@ -630,45 +1818,38 @@ class RoomClient {
       producerTransportInfo,
       consumerTransportInfo,
       routerRtpCapabilities,
-    } = await client.emit("join", {
-      token: call.token,
-    });
+      resumeToken,
+      capabilities,
+    } = admission;
 
     // Load up a local media device consistent with server
     const device = new mediasoupClient.Device();
     await device.load({ routerRtpCapabilities });
 
-    // this handler is necessary to finish connecting a transport
-    // https://mediasoup.org/documentation/v3/mediasoup-client/api/#transport-on-connect
-    const finishTransportConnection =
-      (transportId: string) =>
-      (
-        { dtlsParameters }: { dtlsParameters: DtlsParameters },
-        onSuccess: () => void,
-        onFailure: (e: unknown) => void
-      ) => {
-        client
-          .emit("establishDtls", {
-            dtlsParameters,
-            transportId: transportId,
-          })
-          .then(onSuccess, onFailure);
-      };
-
+    const iceOptions: IceOptions = {
+      iceServers: options.iceServers,
+      iceTransportPolicy: options.iceTransportPolicy,
+    };
     let producerTransport: Transport | null = null;
     if (producerTransportInfo) {
-      producerTransport = device.createSendTransport(producerTransportInfo);
+      producerTransport = device.createSendTransport({
+        ...producerTransportInfo,
+        ...iceOptions,
+      });
 
       producerTransport.on(
         "connect",
-        finishTransportConnection(producerTransport.id)
+        finishTransportConnection(client, producerTransport)
       );
     }
 
-    const consumerTransport = device.createRecvTransport(consumerTransportInfo);
+    const consumerTransport = device.createRecvTransport({
+      ...consumerTransportInfo,
+      ...iceOptions,
+    });
     consumerTransport.on(
       "connect",
-      finishTransportConnection(consumerTransport.id)
+      finishTransportConnection(client, consumerTransport)
     );
 
     await client.emit("declareRtpCapabilities", {
@@ -677,11 +1858,25 @@ class RoomClient {
 
     return new RoomClient({
       client,
+      device,
       producerTransport,
       consumerTransport,
       role,
       userId,
       status,
+      resumeToken,
+      capabilities,
+      resumeGracePeriod:
+        options.resumeGracePeriod ?? DEFAULT_RESUME_GRACE_PERIOD,
+      producerProfiles: resolveProducerProfiles(options.producerProfiles),
+      layerSelection: options.layerSelection,
+      statsInterval: options.statsInterval ?? DEFAULT_STATS_INTERVAL,
+      qualityThresholds: mergeQualityThresholds(options.qualityThresholds),
+      timeline: options.timeline || new CallTimeline(),
+      chat: options.chat || new ChatLog(),
+      moderator: new MessageModerator(options.moderation),
+      callTimers: new CallTimers(options.timers),
+      iceOptions,
     });
   }
 }
@@ -0,0 +1,140 @@
+import StatsCollector, {
+  parseConsumerStats,
+  parseProducerStats,
+  parseTransportStats,
+} from "./StatsCollector";
+
+function report(...stats: Record<string, unknown>[]): RTCStatsReport {
+  return new Map(stats.map((s) => [s.id, s])) as unknown as RTCStatsReport;
+}
+
+describe("parseProducerStats", () => {
+  it("combines simulcast layers and computes rates", () => {
+    const first = parseProducerStats(
+      report(
+        { id: "o0", type: "outbound-rtp", timestamp: 1000, bytesSent: 1000 },
+        { id: "o1", type: "outbound-rtp", timestamp: 1000, bytesSent: 3000 }
+      )
+    );
+    expect(first.bitrate).toBe(0);
+
+    const second = parseProducerStats(
+      report(
+        {
+          id: "o0",
+          type: "outbound-rtp",
+          timestamp: 3000,
+          bytesSent: 2000,
+          packetsSent: 10,
+          frameHeight: 180,
+        },
+        {
+          id: "o1",
+          type: "outbound-rtp",
+          timestamp: 3000,
+          bytesSent: 6000,
+          packetsSent: 80,
+          frameHeight: 360,
+          framesPerSecond: 30,
+        },
+        {
+          id: "r1",
+          type: "remote-inbound-rtp",
+          packetsLost: 10,
+          roundTripTime: 0.05,
+          jitter: 0.002,
+        }
+      ),
+      first.sample
+    );
+    expect(second).toMatchObject({
+      bitrate: 16000,
+      packetsLost: 10,
+      packetLoss: 0.1,
+      roundTripTime: 0.05,
+      jitter: 0.002,
+      framerate: 30,
+      height: 360,
+    });
+  });
+});
+
+describe("parseConsumerStats", () => {
+  it("computes packet loss over the interval", () => {
+    const first = parseConsumerStats(
+      report({
+        id: "i",
+        type: "inbound-rtp",
+        timestamp: 0,
+        bytesReceived: 0,
+        packetsReceived: 100,
+        packetsLost: 5,
+      })
+    );
+    const second = parseConsumerStats(
+      report({
+        id: "i",
+        type: "inbound-rtp",
+        timestamp: 1000,
+        bytesReceived: 12500,
+        packetsReceived: 180,
+        packetsLost: 25,
+      }),
+      first.sample
+    );
+    expect(second.bitrate).toBe(100000);
+    expect(second.packetLoss).toBe(0.2);
+    expect(second.packetsLost).toBe(25);
+  });
+});
+
+describe("parseTransportStats", () => {
+  it("reads the selected candidate pair", () => {
+    expect(
+      parseTransportStats(
+        report(
+          {
+            id: "t",
+            type: "transport",
+            selectedCandidatePairId: "p2",
+            bytesSent: 10,
+            bytesReceived: 20,
+          },
+          { id: "p1", type: "candidate-pair", currentRoundTripTime: 1 },
+          {
+            id: "p2",
+            type: "candidate-pair",
+            currentRoundTripTime: 0.1,
+            availableOutgoingBitrate: 500000,
+          }
+        )
+      )
+    ).toEqual({
+      roundTripTime: 0.1,
+      availableOutgoingBitrate: 500000,
+      availableIncomingBitrate: undefined,
+      bytesSent: 10,
+      bytesReceived: 20,
+    });
+  });
+});
+
+describe("StatsCollector", () => {
+  it("emits an error when stats cannot be collected", async () => {
+    jest.useFakeTimers();
+    const failure = new Error("closed");
+    const collector = new StatsCollector(() => {
+      throw failure;
+    }, 1000);
+    const onError = jest.fn();
+    collector.emitter.on("error", onError);
+
+    collector.start();
+    jest.advanceTimersByTime(1000);
+    collector.stop();
+    jest.useRealTimers();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+});
@@ -0,0 +1,307 @@
+import {
+  Consumer,
+  MediaKind,
+  Producer,
+  Transport,
+} from "mediasoup-client/lib/types";
+import mitt, { Emitter } from "mitt";
+import { ProducerLabel } from "./API";
+
+export type RtpStats = {
+  // producer or consumer id
+  id: string;
+  label: ProducerLabel;
+  kind: MediaKind;
+  // the peer a consumer receives from
+  peerId?: string;
+  // bits per second over the last interval
+  bitrate: number;
+  packetsLost: number;
+  // fraction of packets lost over the last interval, between 0 and 1
+  packetLoss: number;
+  // seconds
+  jitter?: number;
+  // seconds, only known for producers
+  roundTripTime?: number;
+  framerate?: number;
+  width?: number;
+  height?: number;
+};
+
+export type TransportStats = {
+  id: string;
+  direction: "send" | "recv";
+  // seconds
+  roundTripTime?: number;
+  // bits per second, as estimated by the browser
+  availableOutgoingBitrate?: number;
+  availableIncomingBitrate?: number;
+  bytesSent: number;
+  bytesReceived: number;
+};
+
+export type CallStats = {
+  timestamp: number;
+  producers: RtpStats[];
+  consumers: RtpStats[];
+  transports: TransportStats[];
+};
+
+export type StatsSources = {
+  producers: { label: ProducerLabel; producer: Producer }[];
+  consumers: { label: ProducerLabel; peerId: string; consumer: Consumer }[];
+  transports: { direction: "send" | "recv"; transport: Transport }[];
+};
+
+export type StatsEvents = {
+  stats: CallStats;
+  // stats could not be collected this time
+  error: Error;
+};
+
+// counters from the previous sample, used to compute rates
+type Sample = {
+  timestamp: number;
+  bytes: number;
+  packets: number;
+  packetsLost: number;
+};
+
+// the fields of stats vary by type and browser, so each is checked when read
+type Stat = Record<string, unknown>;
+
+function statsOfType(report: RTCStatsReport, type: string): Stat[] {
+  const stats: Stat[] = [];
+  report.forEach((stat: Stat) => {
+    if (stat.type === type) stats.push(stat);
+  });
+  return stats;
+}
+
+function numberOf(stat: Stat | undefined, key: string): number | undefined {
+  const value = stat?.[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+function sum(stats: Stat[], key: string): number {
+  return stats.reduce((total, stat) => total + (numberOf(stat, key) || 0), 0);
+}
+
+function max(stats: Stat[], key: string): number | undefined {
+  const values = stats
+    .map((stat) => numberOf(stat, key))
+    .filter((value): value is number => value !== undefined);
+  return values.length ? Math.max(...values) : undefined;
+}
+
+/**
+ * rates computes the bitrate and packet loss between two samples
+ */
+function rates(
+  current: Sample,
+  previous?: Sample
+): { bitrate: number; packetLoss: number } {
+  if (!previous || current.timestamp <= previous.timestamp)
+    return { bitrate: 0, packetLoss: 0 };
+
+  const seconds = (current.timestamp - previous.timestamp) / 1000;
+  const lost = Math.max(0, current.packetsLost - previous.packetsLost);
+  const packets = Math.max(0, current.packets - previous.packets) + lost;
+  return {
+    bitrate: Math.max(0, (current.bytes - previous.bytes) * 8) / seconds,
+    packetLoss: packets ? lost / packets : 0,
+  };
+}
+
+/**
+ * parseProducerStats reduces the report of a producer to its metrics. A
+ * simulcast producer has an outbound stream per layer, which are combined.
+ */
+export function parseProducerStats(
+  report: RTCStatsReport,
+  previous?: Sample
+): Omit<RtpStats, "id" | "label" | "kind"> & { sample: Sample } {
+  const outbound = statsOfType(report, "outbound-rtp");
+  const remote = statsOfType(report, "remote-inbound-rtp");
+
+  const sample = {
+    timestamp: max(outbound, "timestamp") || 0,
+    bytes: sum(outbound, "bytesSent"),
+    packets: sum(outbound, "packetsSent"),
+    packetsLost: sum(remote, "packetsLost"),
+  };
+
+  return {
+    ...rates(sample, previous),
+    packetsLost: sample.packetsLost,
+    jitter: max(remote, "jitter"),
+    roundTripTime: max(remote, "roundTripTime"),
+    framerate: max(outbound, "framesPerSecond"),
+    width: max(outbound, "frameWidth"),
+    height: max(outbound, "frameHeight"),
+    sample,
+  };
+}
+
+/**
+ * parseConsumerStats reduces the report of a consumer to its metrics
+ */
+export function parseConsumerStats(
+  report: RTCStatsReport,
+  previous?: Sample
+): Omit<RtpStats, "id" | "label" | "kind"> & { sample: Sample } {
+  const inbound = statsOfType(report, "inbound-rtp");
+
+  const sample = {
+    timestamp: max(inbound, "timestamp") || 0,
+    bytes: sum(inbound, "bytesReceived"),
+    packets: sum(inbound, "packetsReceived"),
+    packetsLost: sum(inbound, "packetsLost"),
+  };
+
+  return {
+    ...rates(sample, previous),
+    packetsLost: sample.packetsLost,
+    jitter: max(inbound, "jitter"),
+    framerate: max(inbound, "framesPerSecond"),
+    width: max(inbound, "frameWidth"),
+    height: max(inbound, "frameHeight"),
+    sample,
+  };
+}
+
+/**
+ * parseTransportStats reduces the report of a transport to its metrics
+ */
+export function parseTransportStats(
+  report: RTCStatsReport
+): Omit<TransportStats, "id" | "direction"> {
+  const pairs = statsOfType(report, "candidate-pair");
+  const transports = statsOfType(report, "transport");
+
+  // prefer the pair the transport reports as selected
+  const selectedIds = transports.map((t) => t.selectedCandidatePairId);
+  const pair =
+    pairs.find((p) => selectedIds.includes(p.id)) ||
+    pairs.find((p) => p.nominated && p.state === "succeeded");
+
+  return {
+    roundTripTime: numberOf(pair, "currentRoundTripTime"),
+    availableOutgoingBitrate: numberOf(pair, "availableOutgoingBitrate"),
+    availableIncomingBitrate: numberOf(pair, "availableIncomingBitrate"),
+    bytesSent: transports.length
+      ? sum(transports, "bytesSent")
+      : numberOf(pair, "bytesSent") || 0,
+    bytesReceived: transports.length
+      ? sum(transports, "bytesReceived")
+      : numberOf(pair, "bytesReceived") || 0,
+  };
+}
+
+/**
+ * StatsCollector periodically gathers WebRTC stats of every producer, consumer
+ * and transport into typed metrics
+ */
+export default class StatsCollector {
+  private getSources: () => StatsSources;
+  private interval: number;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private samples: Map<string, Sample> = new Map();
+  private _latest?: CallStats;
+  public emitter: Emitter<StatsEvents>;
+
+  /**
+   * @param getSources returns what to collect stats from
+   * @param interval time in ms between collections
+   */
+  constructor(getSources: () => StatsSources, interval: number) {
+    this.getSources = getSources;
+    this.interval = interval;
+    this.emitter = mitt();
+  }
+
+  /**
+   * returns the most recently collected stats
+   */
+  public get latest(): CallStats | undefined {
+    return this._latest;
+  }
+
+  async collect(): Promise<CallStats> {
+    const { producers, consumers, transports } = this.getSources();
+    const samples: Map<string, Sample> = new Map();
+
+    const stats: CallStats = {
+      timestamp: new Date().getTime(),
+      producers: await Promise.all(
+        producers.map(async ({ label, producer }) => {
+          const { sample, ...metrics } = parseProducerStats(
+            await producer.getStats(),
+            this.samples.get(producer.id)
+          );
+          samples.set(producer.id, sample);
+          return {
+            id: producer.id,
+            label,
+            kind: producer.kind as MediaKind,
+            ...metrics,
+          };
+        })
+      ),
+      consumers: await Promise.all(
+        consumers.map(async ({ label, peerId, consumer }) => {
+          const { sample, ...metrics } = parseConsumerStats(
+            await consumer.getStats(),
+            this.samples.get(consumer.id)
+          );
+          samples.set(consumer.id, sample);
+          return {
+            id: consumer.id,
+            label,
+            peerId,
+            kind: consumer.kind as MediaKind,
+            ...metrics,
+          };
+        })
+      ),
+      transports: await Promise.all(
+        transports.map(async ({ direction, transport }) => ({
+          id: transport.id,
+          direction,
+          ...parseTransportStats(await transport.getStats()),
+        }))
+      ),
+    };
+
+    // forget samples of closed producers and consumers
+    this.samples = samples;
+    this._latest = stats;
+    return stats;
+  }
+
+  /**
+   * starts collecting
+   */
+  start() {
+    if (this.timer) return; // already started
+    this.timer = setInterval(() => {
+      this.collect()
+        .then((stats) => this.emitter.emit("stats", stats))
+        .catch((e) =>
+          this.emitter.emit(
+            "error",
+            e instanceof Error ? e : new Error("Failed to collect stats")
+          )
+        );
+    }, this.interval);
+  }
+
+  /**
+   * stops collecting
+   */
+  stop() {
+    if (!this.timer) return; // already stopped
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
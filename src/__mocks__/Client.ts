@@ -1,4 +1,5 @@
 export default {
   socket: { id: "self-socket-id" },
   connect: jest.fn(),
+  open: jest.fn(),
 };
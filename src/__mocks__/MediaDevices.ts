@@ -8,6 +8,7 @@ export default {
           {
             kind: "audio",
             addEventListener: jest.fn(),
+            stop: jest.fn(),
           },
         ],
       };
@@ -19,6 +20,7 @@ export default {
           kind: "video",
           getSettings: jest.fn().mockReturnValue({ width: 400, height: 300 }),
           addEventListener: jest.fn(),
+          stop: jest.fn(),
         },
       ],
     };
@@ -19,4 +19,12 @@ export default class MediaStream {
   getTracks() {
     return this.tracks;
   }
+
+  getAudioTracks() {
+    return this.tracks.filter((t) => t.kind === "audio");
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter((t) => t.kind === "video");
+  }
 }
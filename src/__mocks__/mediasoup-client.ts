@@ -1,19 +1,37 @@
+// every transport created, to reach their event handlers
+export const transports: Transport[] = [];
+
 class Transport {
+  options: unknown;
+
+  constructor(options: unknown) {
+    this.options = options;
+    transports.push(this);
+  }
+
+  connectionState = "new";
+  closed = false;
   on = jest.fn();
   close = jest.fn();
+  restartIce = jest.fn();
+  getStats = jest.fn().mockResolvedValue(new Map());
   produce = jest.fn().mockImplementation((options) => {
     const result = {
-      track: options,
+      track: options.track,
       close: jest.fn(),
       paused: options.paused || false,
       kind: options.track.kind,
       appData: options.appData,
+      getStats: jest.fn().mockResolvedValue(new Map()),
       pause: () => {
         return;
       },
       resume: () => {
         return;
       },
+      replaceTrack: ({ track }: { track: unknown }) => {
+        result.track = track;
+      },
     };
     result.pause = () => {
       result.paused = true;
@@ -31,6 +49,7 @@ class Transport {
       close: jest.fn(),
       paused: options.paused || false,
       appData: options.appData,
+      getStats: jest.fn().mockResolvedValue(new Map()),
       pause: () => {
         return;
       },
@@ -52,12 +71,12 @@ class Transport {
 export class Device {
   load = jest.fn();
 
-  createSendTransport = jest.fn().mockImplementation(() => {
-    return new Transport();
+  createSendTransport = jest.fn().mockImplementation((options) => {
+    return new Transport(options);
   });
 
-  createRecvTransport = jest.fn().mockImplementation(() => {
-    return new Transport();
+  createRecvTransport = jest.fn().mockImplementation((options) => {
+    return new Transport(options);
   });
 
   rtpCapabilities = {};
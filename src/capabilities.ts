@@ -0,0 +1,84 @@
+import { Role } from "./API";
+
+/**
+ * CallAction is an operation that only some roles may perform
+ */
+export type CallAction =
+  | "textMessage"
+  | "raiseHand"
+  | "lowerHand"
+  | "terminate"
+  | "remoteAudioMute"
+  | "remoteAudioUnmute"
+  | "remoteVideoMute"
+  | "remoteVideoUnmute"
+  | "remoteLowerHand"
+  | "lowerAllHands"
+  | "removeParticipant"
+  | "lockRoom"
+  | "unlockRoom"
+  | "warnParticipant"
+  | "admitEntrant"
+  | "denyEntrant"
+  | "inviteToStage"
+  | "removeFromStage"
+  | "joinStage";
+
+const remoteControl: CallAction[] = [
+  "remoteAudioMute",
+  "remoteAudioUnmute",
+  "remoteVideoMute",
+  "remoteVideoUnmute",
+  "remoteLowerHand",
+  "lowerAllHands",
+];
+
+// used when the server doesn't send capabilities on join
+export const roleCapabilities: Record<Role, CallAction[]> = {
+  [Role.visitParticipant]: [
+    "textMessage",
+    "raiseHand",
+    "lowerHand",
+    "terminate",
+  ],
+  [Role.webinarAttendee]: [
+    "textMessage",
+    "raiseHand",
+    "lowerHand",
+    "joinStage",
+  ],
+  [Role.webinarIsolatedAttendee]: ["raiseHand", "lowerHand", "joinStage"],
+  [Role.webinarHost]: [
+    "textMessage",
+    "terminate",
+    ...remoteControl,
+    "admitEntrant",
+    "denyEntrant",
+    "inviteToStage",
+    "removeFromStage",
+  ],
+  [Role.monitor]: [
+    "textMessage",
+    "terminate",
+    ...remoteControl,
+    "removeParticipant",
+    "lockRoom",
+    "unlockRoom",
+    "warnParticipant",
+    "admitEntrant",
+    "denyEntrant",
+    "inviteToStage",
+    "removeFromStage",
+  ],
+};
+
+/**
+ * resolveCapabilities prefers the capabilities granted by the server, and
+ * falls back on the defaults of the role
+ */
+export function resolveCapabilities(
+  role: Role,
+  granted?: CallAction[]
+): Set<CallAction> {
+  return new Set(granted || roleCapabilities[role]);
+}
@@ -0,0 +1,125 @@
+import { ClientMessages, Role } from "./API";
+import { CallAction } from "./capabilities";
+
+/**
+ * ConnectCallError is the base class for every error raised by this library,
+ * so that callers may distinguish them from unrelated failures.
+ */
+export class ConnectCallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+    // restore the prototype chain, which is lost when extending Error in ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * PermissionError is raised before attempting an action that the role of the
+ * user doesn't allow
+ */
+export class PermissionError extends ConnectCallError {
+  public action: CallAction;
+  public role: Role;
+
+  constructor(action: CallAction, role: Role) {
+    super(`${role} may not ${action}`);
+    this.action = action;
+    this.role = role;
+  }
+}
+
+/**
+ * MessageBlockedError is raised when moderation blocks an outgoing message
+ */
+export class MessageBlockedError extends ConnectCallError {
+  public reasons: string[];
+
+  constructor(reasons: string[]) {
+    super(`Message was blocked: ${reasons.join(", ")}`);
+    this.reasons = reasons;
+  }
+}
+
+/**
+ * AdmissionDeniedError is raised when a monitor or host turns away an entrant
+ * from the waiting room
+ */
+export class AdmissionDeniedError extends ConnectCallError {
+  public reason?: string;
+
+  constructor(reason?: string) {
+    super(`Admission was denied${reason ? `: ${reason}` : ""}`);
+    this.reason = reason;
+  }
+}
+
+/**
+ * ConnectAbortedError is raised when connecting is aborted, e.g. by
+ * disconnecting while waiting to be admitted
+ */
+export class ConnectAbortedError extends ConnectCallError {
+  constructor() {
+    super("Connecting was aborted");
+  }
+}
+
+/**
+ * EmitError is raised when a message sent to the server does not receive a
+ * successful acknowledgement. It carries the event name and payload.
+ */
+export class EmitError<
+  E extends keyof ClientMessages = keyof ClientMessages
+> extends ConnectCallError {
+  public event: E;
+  public data: ClientMessages[E][0];
+
+  constructor(message: string, event: E, data: ClientMessages[E][0]) {
+    super(message);
+    this.event = event;
+    this.data = data;
+  }
+}
+
+/**
+ * AckTimeoutError is raised when the server does not acknowledge a message
+ * within the configured timeout, after all retries have been exhausted.
+ */
+export class AckTimeoutError<
+  E extends keyof ClientMessages = keyof ClientMessages
+> extends EmitError<E> {
+  public timeout: number;
+  public attempts: number;
+
+  constructor(
+    event: E,
+    data: ClientMessages[E][0],
+    timeout: number,
+    attempts: number
+  ) {
+    super(
+      `${event} was not acknowledged within ${timeout}ms (${attempts} attempt${
+        attempts === 1 ? "" : "s"
+      })`,
+      event,
+      data
+    );
+    this.timeout = timeout;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * ServerRejectedError is raised when the server acknowledges a message with
+ * an error response.
+ */
+export class ServerRejectedError<
+  E extends keyof ClientMessages = keyof ClientMessages
+> extends EmitError<E> {
+  public reason: string;
+
+  constructor(event: E, data: ClientMessages[E][0], reason: string) {
+    super(`${event} was rejected by the server: ${reason}`, event, data);
+    this.reason = reason;
+  }
+}
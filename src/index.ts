@@ -1,5 +1,93 @@
-export { default as useConnectCall } from "./useConnectCall";
-export { default as RoomClient } from "./RoomClient";
 export * from "./API";
-export * from "./useConnectCall";
+export { default as CallStore } from "./CallStore";
+export type {
+  CallDetails,
+  CallSnapshot,
+  CallStoreEvents,
+  CallStoreOptions,
+  LocalProducers,
+} from "./CallStore";
+export { default as CallTimeline } from "./CallTimeline";
+export type {
+  TimelineEntry,
+  TimelineEvent,
+  TimelineEventType,
+  TimelineLimits,
+} from "./CallTimeline";
+export { default as CallTimers } from "./CallTimers";
+export type {
+  CallTimersOptions,
+  TimerEvents,
+  TimerState,
+  TimerWarning,
+} from "./CallTimers";
+export * from "./capabilities";
+export {
+  conversationId,
+  conversationOf,
+  default as ChatLog,
+  groupConversations,
+  ROOM_CONVERSATION,
+} from "./ChatLog";
+export type { ChatEvents, MessageModeration } from "./ChatLog";
+export type { ClientOptions, EmitPolicy } from "./Client";
+export {
+  default as ConnectCallProvider,
+  useCallSelector,
+  useCallStatus,
+  useConnectCallStore,
+  useLocalProducer,
+  useMessages,
+  usePeer,
+  usePeers,
+} from "./ConnectCallProvider";
+export type {
+  ConnectionMonitorOptions,
+  PingAggregation,
+} from "./ConnectionMonitor";
+export * from "./errors";
+export type {
+  ConsumerHints,
+  LayerSelectionOptions,
+  PreferredLayers,
+} from "./LayerManager";
+export { default as MediaDeviceManager } from "./MediaDeviceManager";
+export type {
+  CaptureDeviceKind,
+  DeviceEvents,
+  SelectedDevices,
+} from "./MediaDeviceManager";
+export { default as MessageModerator } from "./MessageModerator";
+export type {
+  ModerationCheck,
+  ModerationContext,
+  ModerationOptions,
+  ModerationResult,
+  ModerationRule,
+  ModerationVerdict,
+} from "./MessageModerator";
+export {
+  default as PreCallCheck,
+  defaultPreCallCheckOptions,
+} from "./PreCallCheck";
+export type {
+  CheckOutcome,
+  CheckResult,
+  PreCallCheckOptions,
+  PreCallReport,
+} from "./PreCallCheck";
+export * from "./producerProfiles";
+export type { QualityThresholds } from "./qualityEstimator";
 export * from "./RoomClient";
+export { default as RoomClient } from "./RoomClient";
+export type {
+  CallStats,
+  RtpStats,
+  StatsSources,
+  TransportStats,
+} from "./StatsCollector";
+export { default as useAudioLevels } from "./useAudioLevels";
+export { default as useCallStats } from "./useCallStats";
+export { default as useCallTimers } from "./useCallTimers";
+export * from "./useConnectCall";
+export { default as useConnectCall } from "./useConnectCall";
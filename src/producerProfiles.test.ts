@@ -0,0 +1,57 @@
+import { Producer } from "mediasoup-client/lib/types";
+import { ProducerLabel } from "./API";
+import {
+  applyProducerProfile,
+  producerPresets,
+  resolveProducerProfiles,
+} from "./producerProfiles";
+
+describe("resolveProducerProfiles", () => {
+  it("defaults to the standard preset", () => {
+    expect(resolveProducerProfiles()).toEqual(producerPresets.standard);
+  });
+
+  it("expands preset names", () => {
+    expect(resolveProducerProfiles("hd")).toEqual(producerPresets.hd);
+  });
+
+  it("merges partial profiles over the standard preset", () => {
+    const screenshare = { encodings: [{ maxBitrate: 100 }] };
+    const profiles = resolveProducerProfiles({ screenshare });
+    expect(profiles.screenshare).toBe(screenshare);
+    expect(profiles.video).toBe(producerPresets.standard.video);
+  });
+});
+
+describe("applyProducerProfile", () => {
+  it("updates live encodings by position", async () => {
+    const parameters = {
+      encodings: [
+        { rid: "r0", active: true, maxBitrate: 50000 },
+        { rid: "r1", active: true, maxBitrate: 300000 },
+        { rid: "r2", active: true, maxBitrate: 900000 },
+      ],
+    };
+    const rtpSender = {
+      getParameters: jest.fn().mockReturnValue(parameters),
+      setParameters: jest.fn(),
+    };
+
+    await applyProducerProfile(
+      { rtpSender } as unknown as Producer,
+      producerPresets["low-bandwidth"][ProducerLabel.video]
+    );
+
+    expect(rtpSender.setParameters).toHaveBeenCalledWith({
+      encodings: [
+        expect.objectContaining({ rid: "r0", active: true, maxBitrate: 50000 }),
+        expect.objectContaining({
+          rid: "r1",
+          active: true,
+          maxBitrate: 150000,
+        }),
+        expect.objectContaining({ rid: "r2", active: false }),
+      ],
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  Producer,
+  ProducerCodecOptions,
+  RtpEncodingParameters,
+} from "mediasoup-client/lib/types";
+import { ProducerLabel } from "./API";
+
+/**
+ * ProducerProfile describes how a local track is encoded: its simulcast layers
+ * and their bitrates, and codec options applied when the producer is created.
+ */
+export type ProducerProfile = {
+  encodings?: RtpEncodingParameters[];
+  codecOptions?: ProducerCodecOptions;
+};
+
+export type ProducerPreset = "low-bandwidth" | "standard" | "hd";
+
+export type ProducerProfiles = Record<ProducerLabel, ProducerProfile>;
+
+export const producerPresets: Record<ProducerPreset, ProducerProfiles> = {
+  "low-bandwidth": {
+    [ProducerLabel.screenshare]: {
+      encodings: [
+        {
+          rid: "r0",
+          maxBitrate: 400000,
+          maxFramerate: 5,
+        },
+      ],
+      codecOptions: {},
+    },
+    [ProducerLabel.video]: {
+      encodings: [
+        {
+          rid: "r0",
+          maxBitrate: 50000,
+          maxFramerate: 10,
+          scalabilityMode: "L1T3",
+        },
+        {
+          rid: "r1",
+          maxBitrate: 150000,
+          scalabilityMode: "L1T3",
+        },
+      ],
+      codecOptions: {
+        videoGoogleStartBitrate: 300,
+      },
+    },
+    [ProducerLabel.audio]: {
+      codecOptions: {
+        opusDtx: true,
+        opusFec: true,
+      },
+    },
+  },
+  standard: {
+    [ProducerLabel.screenshare]: {
+      encodings: [
+        {
+          rid: "r0",
+          maxBitrate: 900000,
+        },
+      ],
+      codecOptions: {},
+    },
+    [ProducerLabel.video]: {
+      encodings: [
+        {
+          rid: "r0",
+          maxBitrate: 50000,
+          maxFramerate: 10,
+          scalabilityMode: "L1T3",
+        },
+        {
+          rid: "r1",
+          maxBitrate: 300000,
+          scalabilityMode: "L1T3",
+        },
+        {
+          rid: "r2",
+          maxBitrate: 900000,
+          scalabilityMode: "L1T3",
+        },
+      ],
+      codecOptions: {
+        videoGoogleStartBitrate: 1000,
+      },
+    },
+    [ProducerLabel.audio]: {},
+  },
+  hd: {
+    [ProducerLabel.screenshare]: {
+      encodings: [
+        {
+          rid: "r0",
+          maxBitrate: 2500000,
+        },
+      ],
+      codecOptions: {},
+    },
+    [ProducerLabel.video]: {
+      encodings: [
+        {
+          rid: "r0",
+          maxBitrate: 100000,
+          maxFramerate: 15,
+          scalabilityMode: "L1T3",
+        },
+        {
+          rid: "r1",
+          maxBitrate: 500000,
+          scalabilityMode: "L1T3",
+        },
+        {
+          rid: "r2",
+          maxBitrate: 2500000,
+          scalabilityMode: "L1T3",
+        },
+      ],
+      codecOptions: {
+        videoGoogleStartBitrate: 1500,
+      },
+    },
+    [ProducerLabel.audio]: {},
+  },
+};
+
+/**
+ * resolveProducerProfiles expands a preset name or a partial set of profiles
+ * into a profile for every label, falling back on the standard preset.
+ */
+export function resolveProducerProfiles(
+  profiles?: ProducerPreset | Partial<ProducerProfiles>
+): ProducerProfiles {
+  if (typeof profiles === "string") return producerPresets[profiles];
+  return { ...producerPresets.standard, ...profiles };
+}
+
+/**
+ * applyProducerProfile reconfigures the encodings of a live producer in place.
+ * Simulcast layers are matched by position; the number of layers is fixed
+ * when the producer is created, so layers beyond the profile are deactivated
+ * and extra layers in the profile are ignored. Codec options only take effect
+ * on the next produce.
+ */
+export async function applyProducerProfile(
+  producer: Producer,
+  profile: ProducerProfile
+): Promise<void> {
+  if (!profile.encodings) return;
+
+  const sender = producer.rtpSender;
+  if (!sender) throw new Error("Producer does not support reconfiguration");
+
+  const parameters = sender.getParameters();
+  parameters.encodings = parameters.encodings.map((encoding, i) => {
+    const next = profile.encodings?.[i];
+    if (!next) return { ...encoding, active: false };
+    return {
+      ...encoding,
+      active: true,
+      maxBitrate: next.maxBitrate,
+      maxFramerate: next.maxFramerate,
+      scaleResolutionDownBy: next.scaleResolutionDownBy,
+    };
+  });
+  await sender.setParameters(parameters);
+}
@@ -0,0 +1,144 @@
+import { ConnectionStateQuality, ProducerLabel } from "./API";
+import { estimateQuality, mergeQualityThresholds } from "./qualityEstimator";
+import { CallStats } from "./StatsCollector";
+
+function statsFactory({
+  roundTripTime = 0.02,
+  packetLoss = 0,
+  availableOutgoingBitrate = 2000000,
+  videoBitrate = 500000,
+}: {
+  roundTripTime?: number;
+  packetLoss?: number;
+  availableOutgoingBitrate?: number;
+  videoBitrate?: number;
+}): CallStats {
+  return {
+    timestamp: 0,
+    producers: [
+      {
+        id: "producer-id",
+        label: ProducerLabel.video,
+        kind: "video",
+        bitrate: videoBitrate,
+        packetsLost: 0,
+        packetLoss: 0,
+      },
+    ],
+    consumers: [
+      {
+        id: "consumer-id",
+        label: ProducerLabel.video,
+        kind: "video",
+        bitrate: 300000,
+        packetsLost: 0,
+        packetLoss,
+      },
+    ],
+    transports: [
+      {
+        id: "send-id",
+        direction: "send",
+        roundTripTime,
+        availableOutgoingBitrate,
+        bytesSent: 0,
+        bytesReceived: 0,
+      },
+    ],
+  };
+}
+
+describe("estimateQuality", () => {
+  it("relies on ping without stats", () => {
+    expect(estimateQuality({ ping: ConnectionStateQuality.good })).toBe(
+      ConnectionStateQuality.good
+    );
+  });
+
+  it("rates the connection by its worst aspect", () => {
+    expect(
+      estimateQuality({
+        ping: ConnectionStateQuality.excellent,
+        stats: statsFactory({ packetLoss: 0.2 }),
+      })
+    ).toBe(ConnectionStateQuality.bad);
+
+    expect(
+      estimateQuality({
+        ping: ConnectionStateQuality.excellent,
+        stats: statsFactory({ availableOutgoingBitrate: 500000 }),
+      })
+    ).toBe(ConnectionStateQuality.average);
+
+    expect(
+      estimateQuality({
+        ping: ConnectionStateQuality.poor,
+        stats: statsFactory({}),
+      })
+    ).toBe(ConnectionStateQuality.poor);
+  });
+
+  it("ignores unknown aspects", () => {
+    expect(
+      estimateQuality({
+        ping: ConnectionStateQuality.unknown,
+        stats: statsFactory({ roundTripTime: 0.1 }),
+      })
+    ).toBe(ConnectionStateQuality.good);
+  });
+
+  it("accepts custom thresholds", () => {
+    expect(
+      estimateQuality(
+        {
+          ping: ConnectionStateQuality.excellent,
+          stats: statsFactory({ packetLoss: 0.02 }),
+        },
+        mergeQualityThresholds({
+          packetLoss: {
+            excellent: 0.05,
+            good: 0.1,
+            average: 0.2,
+            poor: 0.3,
+          },
+        })
+      )
+    ).toBe(ConnectionStateQuality.excellent);
+  });
+
+  it("ignores the outgoing bitrate while little video is sent", () => {
+    expect(
+      estimateQuality({
+        ping: ConnectionStateQuality.excellent,
+        stats: statsFactory({
+          availableOutgoingBitrate: 50000,
+          videoBitrate: 0,
+        }),
+      })
+    ).toBe(ConnectionStateQuality.excellent);
+  });
+
+  it("requires a margin past a boundary to change quality", () => {
+    const estimate = (roundTripTime: number, current: ConnectionStateQuality) =>
+      estimateQuality({
+        ping: ConnectionStateQuality.excellent,
+        stats: statsFactory({ roundTripTime }),
+        current,
+      });
+
+    // hovering just past the good boundary of 150ms
+    expect(estimate(0.16, ConnectionStateQuality.good)).toBe(
+      ConnectionStateQuality.good
+    );
+    expect(estimate(0.2, ConnectionStateQuality.good)).toBe(
+      ConnectionStateQuality.average
+    );
+    // and just within it
+    expect(estimate(0.14, ConnectionStateQuality.average)).toBe(
+      ConnectionStateQuality.average
+    );
+    expect(estimate(0.1, ConnectionStateQuality.average)).toBe(
+      ConnectionStateQuality.good
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { ConnectionStateQuality } from "./API";
+import { CallStats } from "./StatsCollector";
+
+type RatedQuality = Exclude<
+  ConnectionStateQuality,
+  ConnectionStateQuality.bad | ConnectionStateQuality.unknown
+>;
+
+/**
+ * QualityThresholds are the boundaries of each quality for media metrics.
+ * Anything past the poor boundary is bad.
+ */
+export type QualityThresholds = {
+  // upper bounds of transport round trip time, in ms
+  roundTripTime: Record<RatedQuality, number>;
+  // upper bounds of the fraction of packets lost, between 0 and 1
+  packetLoss: Record<RatedQuality, number>;
+  // lower bounds of the estimated available outgoing bitrate, in bits/s
+  availableOutgoingBitrate: Record<RatedQuality, number>;
+  // fractions by which a metric must cross a boundary to change quality,
+  // so that quality doesn't flicker when a metric hovers around a boundary
+  hysteresis: { downgrade: number; upgrade: number };
+};
+
+export const defaultQualityThresholds: QualityThresholds = {
+  roundTripTime: {
+    [ConnectionStateQuality.excellent]: 50,
+    [ConnectionStateQuality.good]: 150,
+    [ConnectionStateQuality.average]: 300,
+    [ConnectionStateQuality.poor]: 600,
+  },
+  packetLoss: {
+    [ConnectionStateQuality.excellent]: 0.01,
+    [ConnectionStateQuality.good]: 0.03,
+    [ConnectionStateQuality.average]: 0.08,
+    [ConnectionStateQuality.poor]: 0.15,
+  },
+  availableOutgoingBitrate: {
+    [ConnectionStateQuality.excellent]: 1500000,
+    [ConnectionStateQuality.good]: 800000,
+    [ConnectionStateQuality.average]: 300000,
+    [ConnectionStateQuality.poor]: 100000,
+  },
+  hysteresis: { downgrade: 0.1, upgrade: 0.2 },
+};
+
+// browsers only raise their bandwidth estimate while sending enough media to
+// probe it, so the estimate is ignored while sending less video than this
+const MIN_PROBING_VIDEO_BITRATE = 150000;
+
+// from best to worst
+const qualities = [
+  ConnectionStateQuality.excellent,
+  ConnectionStateQuality.good,
+  ConnectionStateQuality.average,
+  ConnectionStateQuality.poor,
+  ConnectionStateQuality.bad,
+] as const;
+
+function classify(
+  value: number,
+  bounds: Record<RatedQuality, number>,
+  higherIsBetter: boolean
+): number {
+  return qualities.findIndex(
+    (quality) =>
+      quality === ConnectionStateQuality.bad ||
+      (higherIsBetter ? value >= bounds[quality] : value <= bounds[quality])
+  );
+}
+
+// rates a metric, requiring it to cross the boundaries of the current quality
+// by a margin before changing it
+function rate(
+  value: number | undefined,
+  bounds: Record<RatedQuality, number>,
+  current: ConnectionStateQuality,
+  { downgrade, upgrade }: QualityThresholds["hysteresis"],
+  higherIsBetter = false
+): ConnectionStateQuality {
+  if (value === undefined || isNaN(value))
+    return ConnectionStateQuality.unknown;
+
+  const currentIndex = qualities.indexOf(current as typeof qualities[number]);
+  if (currentIndex === -1)
+    return qualities[classify(value, bounds, higherIsBetter)];
+
+  const worse = higherIsBetter
+    ? value * (1 + downgrade)
+    : value / (1 + downgrade);
+  const better = higherIsBetter ? value / (1 + upgrade) : value * (1 + upgrade);
+  const downgraded = classify(worse, bounds, higherIsBetter);
+  const upgraded = classify(better, bounds, higherIsBetter);
+  if (downgraded > currentIndex) return qualities[downgraded];
+  if (upgraded < currentIndex) return qualities[upgraded];
+  return current;
+}
+
+function worst(...ratings: ConnectionStateQuality[]): ConnectionStateQuality {
+  const known = ratings
+    .map((r) => qualities.indexOf(r as typeof qualities[number]))
+    .filter((i) => i !== -1);
+  return known.length
+    ? qualities[Math.max(...known)]
+    : ConnectionStateQuality.unknown;
+}
+
+/**
+ * mergeQualityThresholds overrides the default thresholds per metric
+ */
+export function mergeQualityThresholds(
+  thresholds: Partial<QualityThresholds> = {}
+): QualityThresholds {
+  return {
+    roundTripTime: {
+      ...defaultQualityThresholds.roundTripTime,
+      ...thresholds.roundTripTime,
+    },
+    packetLoss: {
+      ...defaultQualityThresholds.packetLoss,
+      ...thresholds.packetLoss,
+    },
+    availableOutgoingBitrate: {
+      ...defaultQualityThresholds.availableOutgoingBitrate,
+      ...thresholds.availableOutgoingBitrate,
+    },
+    hysteresis: {
+      ...defaultQualityThresholds.hysteresis,
+      ...thresholds.hysteresis,
+    },
+  };
+}
+
+/**
+ * estimateQuality rates a connection by its worst aspect: signalling latency
+ * as measured by ConnectionMonitor, and transport round trip time, packet loss
+ * and available outgoing bitrate from WebRTC stats. Unknown aspects are
+ * ignored, as is the outgoing bitrate while little video is sent. Media
+ * metrics only move away from the current quality past the hysteresis margins.
+ */
+export function estimateQuality(
+  {
+    ping,
+    stats,
+    current = ConnectionStateQuality.unknown,
+  }: {
+    ping: ConnectionStateQuality;
+    stats?: CallStats;
+    // the quality estimated last time
+    current?: ConnectionStateQuality;
+  },
+  thresholds: QualityThresholds = defaultQualityThresholds
+): ConnectionStateQuality {
+  if (!stats) return ping;
+
+  const roundTripTimes = stats.transports
+    .map((t) => t.roundTripTime)
+    .filter((t): t is number => t !== undefined)
+    .map((t) => t * 1000);
+  const packetLosses = [...stats.producers, ...stats.consumers].map(
+    (s) => s.packetLoss
+  );
+  const sendTransport = stats.transports.find((t) => t.direction === "send");
+  const videoBitrate = stats.producers
+    .filter((p) => p.kind === "video")
+    .reduce((total, p) => total + p.bitrate, 0);
+  const { hysteresis } = thresholds;
+
+  return worst(
+    ping,
+    rate(
+      roundTripTimes.length ? Math.max(...roundTripTimes) : undefined,
+      thresholds.roundTripTime,
+      current,
+      hysteresis
+    ),
+    rate(
+      packetLosses.length ? Math.max(...packetLosses) : undefined,
+      thresholds.packetLoss,
+      current,
+      hysteresis
+    ),
+    rate(
+      videoBitrate >= MIN_PROBING_VIDEO_BITRATE
+        ? sendTransport?.availableOutgoingBitrate
+        : undefined,
+      thresholds.availableOutgoingBitrate,
+      current,
+      hysteresis,
+      true
+    )
+  );
+}
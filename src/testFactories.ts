@@ -9,10 +9,22 @@ export function clientFactory() {
   const emitResponses: EmitResponses = {
     join: {
       role: "visitParticipant",
+      userId: "1",
       status: [],
       consumerTransportInfo: {},
       producerTransportInfo: {},
       routerRtpCapabilities: {},
+      resumeToken: "resume-token-1",
+    },
+    textMessage: {
+      id: "message-1",
+      timestamp: "2021-11-23T12:34:56.789Z",
+    },
+    messageHistory: { messages: [] },
+    resume: {
+      resumeToken: "resume-token-2",
+      consumerIceParameters: {},
+      producerIceParameters: {},
     },
   };
   return {
@@ -41,6 +53,7 @@ export function clientFactory() {
           )
       ),
     close: jest.fn(),
+    waitFor: jest.fn().mockResolvedValue(undefined),
 
     connectionMonitor: connectionMonitorFactory(),
   };
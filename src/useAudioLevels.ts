@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import { ConnectCall } from "./useConnectCall";
+
+/**
+ * useAudioLevels provides the audio level of every peer, between 0 and 1.
+ * Levels change several times a second, so only the components using this
+ * hook re-render for them.
+ */
+const useAudioLevels = ({
+  watchAudioLevels,
+}: Pick<ConnectCall, "watchAudioLevels">): Record<string, number> => {
+  const [audioLevels, setAudioLevels] = useState<Record<string, number>>({});
+
+  useEffect(() => watchAudioLevels(setAudioLevels), [watchAudioLevels]);
+
+  return audioLevels;
+};
+
+export default useAudioLevels;
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import { CallStats } from "./StatsCollector";
+import { ConnectCall } from "./useConnectCall";
+
+/**
+ * useCallStats provides the latest WebRTC stats of a call. Stats are only
+ * collected while a component using this hook is mounted.
+ */
+const useCallStats = ({
+  watchStats,
+}: Pick<ConnectCall, "watchStats">): CallStats | undefined => {
+  const [stats, setStats] = useState<CallStats>();
+
+  useEffect(() => watchStats(setStats), [watchStats]);
+
+  return stats;
+};
+
+export default useCallStats;
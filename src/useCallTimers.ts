@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import { TimerState } from "./CallTimers";
+import { ConnectCall } from "./useConnectCall";
+
+/**
+ * useCallTimers provides every named call timer, counting down between
+ * updates from the server. Only the components using this hook re-render
+ * every second.
+ */
+const useCallTimers = ({
+  watchTimers,
+}: Pick<ConnectCall, "watchTimers">): Record<string, TimerState> => {
+  const [timers, setTimers] = useState<Record<string, TimerState>>({});
+
+  useEffect(() => watchTimers(setTimers), [watchTimers]);
+
+  return timers;
+};
+
+export default useCallTimers;
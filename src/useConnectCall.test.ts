@@ -10,7 +10,15 @@ import {
   UserStatus,
 } from "./API";
 import Client from "./Client";
+import {
+  AckTimeoutError,
+  AdmissionDeniedError,
+  PermissionError,
+} from "./errors";
 import { clientFactory } from "./testFactories";
+import useAudioLevels from "./useAudioLevels";
+import useCallStats from "./useCallStats";
+import useCallTimers from "./useCallTimers";
 import useConnectCall from "./useConnectCall";
 import MediaDevices from "./__mocks__/MediaDevices";
 import MediaStream from "./__mocks__/MediaStream";
@@ -51,6 +59,38 @@ const user = {
   token: "T2",
 };
 
+// the transports created by mediasoup-client since the test began
+const { transports } = jest.requireMock("mediasoup-client");
+
+type MockTransport = {
+  id?: string;
+  connectionState: string;
+  on: jest.Mock;
+  restartIce: jest.Mock;
+  getStats: jest.Mock;
+};
+
+function changeTransportState(transport: MockTransport, state: string) {
+  transport.connectionState = state;
+  const [, handler] = transport.on.mock.calls.find(
+    ([event]) => event === "connectionstatechange"
+  );
+  act(() => handler(state));
+}
+
+// advances fake timers, letting pending promises settle before and after
+async function advanceTimers(ms: number) {
+  const flush = () =>
+    new Promise((resolve) =>
+      jest.requireActual("timers").setImmediate(resolve)
+    );
+  await actHook(async () => {
+    await flush();
+    jest.advanceTimersByTime(ms);
+    await flush();
+  });
+}
+
 advanceTo(new Date("2021-11-23T12:34:56.789Z"));
 
 describe("useConnectCall", () => {
@@ -62,6 +102,7 @@ describe("useConnectCall", () => {
     onPeerConnected.mockClear();
     onPeerDisconnected.mockClear();
     onNewMessage.mockClear();
+    transports.length = 0;
   });
 
   it("completes the connection handshake", async () => {
@@ -772,6 +813,8 @@ describe("useConnectCall", () => {
       client.sendServerEvent("textMessage", {
         from: { id: "2", role: Role.visitParticipant },
         contents: "first",
+        id: "message-1",
+        timestamp: "2021-11-23T12:34:56.789Z",
       });
     });
 
@@ -780,6 +823,8 @@ describe("useConnectCall", () => {
       Array [
         Object {
           "contents": "first",
+          "id": "message-1",
+          "status": "sent",
           "timestamp": 2021-11-23T12:34:56.789Z,
           "user": Object {
             "id": "2",
@@ -803,18 +848,16 @@ describe("useConnectCall", () => {
     await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
 
     await actHook(() => result.current.sendMessage("Hello"));
-    expect(result.current.messages).toMatchInlineSnapshot(`
-      Array [
-        Object {
-          "contents": "Hello",
-          "timestamp": 2021-11-23T12:34:56.789Z,
-          "user": Object {
-            "id": "1",
-            "role": "visitParticipant",
-          },
-        },
-      ]
-    `);
+    expect(result.current.messages).toEqual([
+      {
+        clientMessageId: expect.any(String),
+        contents: "Hello",
+        id: "message-1",
+        status: "sent",
+        timestamp: new Date("2021-11-23T12:34:56.789Z"),
+        user: { id: "1", role: "visitParticipant" },
+      },
+    ]);
   });
 
   it("announces new messages", async () => {
@@ -833,12 +876,16 @@ describe("useConnectCall", () => {
       client.sendServerEvent("textMessage", {
         from: { id: "2", role: Role.visitParticipant },
         contents: "first",
+        id: "message-1",
+        timestamp: "2021-11-23T12:34:56.789Z",
       });
     });
     act(() => {
       client.sendServerEvent("textMessage", {
         from: { id: "2", role: Role.visitParticipant },
         contents: "second",
+        id: "message-2",
+        timestamp: "2021-11-23T12:34:56.789Z",
       });
     });
 
@@ -892,4 +939,1168 @@ describe("useConnectCall", () => {
     await result.current.disconnect();
     expect(result.current.clientStatus).toBe("disconnected");
   });
+
+  it("resumes the session after a brief disconnect", async () => {
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    act(() => {
+      client.sendServerEvent("disconnect", "transport close");
+    });
+    expect(result.current.clientStatus).toBe("reconnecting");
+
+    act(() => {
+      client.sendServerEvent("connect", undefined);
+    });
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    expect(client.emit).toHaveBeenCalledWith("resume", {
+      resumeToken: "resume-token-1",
+    });
+    expect(Client.connect).toHaveBeenCalledTimes(1);
+    expect(result.current.disconnectReason).toBeUndefined();
+  });
+
+  it("rebuilds the session when resuming fails", async () => {
+    const { result } = renderHook(() =>
+      useConnectCall({ call, user, options: { resumeGracePeriod: 100 } })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    act(() => {
+      client.sendServerEvent("disconnect", "transport close");
+    });
+    expect(result.current.clientStatus).toBe("reconnecting");
+
+    await waitFor(() => expect(Client.connect).toHaveBeenCalledTimes(2));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+  });
+
+  it("restarts ICE after a transport stays disconnected", async () => {
+    client.prepareServerResponse("restartIce", { iceParameters: {} as never });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    const transport: MockTransport = transports[transports.length - 1];
+
+    jest.useFakeTimers();
+    try {
+      changeTransportState(transport, "disconnected");
+      expect(result.current.transportStates?.consumer).toBe("disconnected");
+      expect(client.emit).not.toHaveBeenCalledWith(
+        "restartIce",
+        expect.anything()
+      );
+
+      await advanceTimers(2000);
+      expect(client.emit).toHaveBeenCalledWith("restartIce", {
+        transportId: transport.id,
+      });
+      await advanceTimers(50);
+      expect(transport.restartIce).toHaveBeenCalledWith({ iceParameters: {} });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("restarts ICE at once when a transport fails", async () => {
+    client.prepareServerResponse("restartIce", { iceParameters: {} as never });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    const transport: MockTransport = transports[transports.length - 1];
+
+    changeTransportState(transport, "failed");
+    expect(client.emit).toHaveBeenCalledWith("restartIce", {
+      transportId: transport.id,
+    });
+    await waitFor(() =>
+      expect(transport.restartIce).toHaveBeenCalledWith({ iceParameters: {} })
+    );
+  });
+
+  it("rebuilds the session when ICE cannot be restarted", async () => {
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    const transport: MockTransport = transports[transports.length - 1];
+
+    const emit = client.emit.getMockImplementation();
+    client.emit.mockImplementation(async (name: string, data: unknown) => {
+      if (name === "restartIce") throw new Error("unavailable");
+      return emit?.(name, data);
+    });
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    jest.useFakeTimers();
+    try {
+      changeTransportState(transport, "failed");
+      // retried with backoff
+      await advanceTimers(2000);
+      expect(
+        client.emit.mock.calls.filter(([name]) => name === "restartIce")
+      ).toHaveLength(2);
+      expect(Client.connect).toHaveBeenCalledTimes(1);
+      await advanceTimers(4000);
+    } finally {
+      jest.useRealTimers();
+      (console.error as jest.Mock).mockRestore();
+    }
+
+    expect(
+      client.emit.mock.calls.filter(([name]) => name === "restartIce")
+    ).toHaveLength(3);
+    await waitFor(() => expect(Client.connect).toHaveBeenCalledTimes(2));
+  });
+
+  it("rebuilds the session when ICE keeps failing after restarts", async () => {
+    client.prepareServerResponse("restartIce", { iceParameters: {} as never });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    const transport: MockTransport = transports[transports.length - 1];
+    const restarts = () =>
+      client.emit.mock.calls.filter(([name]) => name === "restartIce");
+
+    jest.useFakeTimers();
+    try {
+      changeTransportState(transport, "failed");
+      await advanceTimers(50);
+      expect(transport.restartIce).toHaveBeenCalledTimes(1);
+
+      // restarted, but ICE fails again
+      changeTransportState(transport, "failed");
+      expect(restarts()).toHaveLength(1);
+      await advanceTimers(2050);
+      expect(restarts()).toHaveLength(2);
+
+      changeTransportState(transport, "failed");
+      await advanceTimers(2050);
+      expect(restarts()).toHaveLength(2);
+      await advanceTimers(2000);
+      expect(restarts()).toHaveLength(3);
+      expect(Client.connect).toHaveBeenCalledTimes(1);
+
+      changeTransportState(transport, "failed");
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(restarts()).toHaveLength(3);
+    await waitFor(() => expect(Client.connect).toHaveBeenCalledTimes(2));
+  });
+
+  it("tracks the active speaker", async () => {
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      const connectCall = useConnectCall({ call, user });
+      return { ...connectCall, audioLevels: useAudioLevels(connectCall) };
+    });
+    const { result: callResult } = renderHook(() => {
+      renders++;
+      return useConnectCall({ call, user });
+    });
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    await waitFor(() =>
+      expect(callResult.current.clientStatus).toBe("connected")
+    );
+
+    act(() => {
+      client.sendServerEvent("audioLevels", [
+        { peerId: "socket-1", volume: -20 },
+        { peerId: "socket-2", volume: -40 },
+      ]);
+    });
+
+    expect(result.current.activeSpeakerPeerId).toBe("socket-1");
+    expect(result.current.audioLevels["socket-1"]).toBeCloseTo(0.1);
+    expect(result.current.audioLevels["socket-2"]).toBeCloseTo(0.01);
+
+    // levels only re-render the components that use them
+    const before = renders;
+    act(() => {
+      client.sendServerEvent("audioLevels", [
+        { peerId: "socket-1", volume: -30 },
+      ]);
+    });
+    expect(result.current.audioLevels["socket-1"]).toBeCloseTo(0.03);
+    expect(renders).toBe(before + 1);
+
+    act(() => {
+      client.sendServerEvent("audioLevels", []);
+    });
+
+    expect(result.current.activeSpeakerPeerId).toBe("socket-1");
+
+    act(() => {
+      client.sendServerEvent("activeSpeaker", { peerId: "socket-2" });
+    });
+
+    expect(result.current.activeSpeakerPeerId).toBe("socket-2");
+  });
+
+  it("receives the active speaker in better layers", async () => {
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {
+          "socket-2": {
+            peerId: "socket-2",
+            user: { id: "2", role: Role.visitParticipant },
+            status: [],
+            connectionState,
+            consumers: {
+              [ProducerLabel.audio]: {
+                id: "consumer-audio-id",
+                producerId: "producer-audio-id",
+                kind: "audio",
+                producerPaused: false,
+                rtpParameters: { codecs: [] },
+                paused: false,
+              },
+              [ProducerLabel.video]: {
+                id: "consumer-video-id",
+                producerId: "producer-video-id",
+                kind: "video",
+                producerPaused: false,
+                rtpParameters: { codecs: [] },
+                paused: false,
+              },
+            },
+            manualConsumerPauses: {},
+          },
+        },
+        status: CallStatus.live,
+      });
+    });
+    await waitFor(() =>
+      expect(result.current.peers["socket-2"]?.consumers.video).toBeTruthy()
+    );
+
+    act(() => {
+      result.current.setConsumerHints("consumer-audio-id", { height: 120 });
+      result.current.setConsumerHints("consumer-video-id", { height: 120 });
+    });
+    const layerRequests = () =>
+      client.emit.mock.calls.filter(
+        ([name]) => name === "setPreferredSimulcastLayer"
+      );
+    expect(layerRequests()).toEqual([
+      [
+        "setPreferredSimulcastLayer",
+        { consumerId: "consumer-video-id", spatialLayer: 0, temporalLayer: 1 },
+      ],
+    ]);
+
+    act(() => {
+      client.sendServerEvent("activeSpeaker", { peerId: "socket-2" });
+    });
+    expect(layerRequests()[1]).toEqual([
+      "setPreferredSimulcastLayer",
+      { consumerId: "consumer-video-id", spatialLayer: 1, temporalLayer: 2 },
+    ]);
+  });
+
+  it("switches devices without republishing", async () => {
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    await actHook(() => result.current.produceDevice(ProducerLabel.video));
+    const [track] =
+      result.current.localProducers[ProducerLabel.video]?.stream.getTracks() ||
+      [];
+    expect(track).toBeTruthy();
+
+    await actHook(() => result.current.selectDevice("videoinput", "camera-2"));
+
+    expect(result.current.selectedDevices).toEqual({ videoinput: "camera-2" });
+    const [replacement] =
+      result.current.localProducers[ProducerLabel.video]?.stream.getTracks() ||
+      [];
+    expect(replacement).not.toBe(track);
+    expect(track.stop).toHaveBeenCalled();
+    expect(client.emit).not.toHaveBeenCalledWith(
+      "producerClose",
+      expect.anything()
+    );
+  });
+
+  it("replaces a paused track without republishing", async () => {
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    const track = (
+      await navigator.mediaDevices.getUserMedia({ audio: true })
+    ).getAudioTracks()[0];
+    await actHook(() =>
+      result.current.produceTrack(track, ProducerLabel.audio)
+    );
+    await actHook(() => result.current.pauseProducer(ProducerLabel.audio));
+
+    const replacement = (
+      await navigator.mediaDevices.getUserMedia({ audio: true })
+    ).getAudioTracks()[0];
+    await actHook(() =>
+      result.current.replaceTrack(ProducerLabel.audio, replacement)
+    );
+
+    const producer = result.current.localProducers[ProducerLabel.audio];
+    expect(producer?.paused).toBe(true);
+    expect(producer?.stream.getTracks()).toEqual([replacement]);
+    expect(replacement.enabled).toBe(false);
+    expect(client.emit).not.toHaveBeenCalledWith(
+      "producerClose",
+      expect.anything()
+    );
+  });
+
+  it("replays history without duplicating messages", async () => {
+    const message = (id: string) => ({
+      id,
+      from: { id: "2", role: Role.visitParticipant },
+      contents: id,
+      timestamp: "2021-11-23T12:34:56.789Z",
+    });
+    client.prepareServerResponse("messageHistory", {
+      messages: [message("message-1"), message("message-2")],
+    });
+
+    const { result } = renderHook(() =>
+      useConnectCall({ call, user, onNewMessage })
+    );
+    await waitFor(() => expect(result.current.messages).toHaveLength(2));
+
+    act(() => {
+      client.sendServerEvent("textMessage", message("message-2"));
+      client.sendServerEvent("textMessage", message("message-3"));
+    });
+
+    expect(result.current.messages.map((m) => m.id)).toEqual([
+      "message-1",
+      "message-2",
+      "message-3",
+    ]);
+    expect(onNewMessage).toHaveBeenCalledTimes(1);
+    expect(client.emit).toHaveBeenCalledWith("messageHistory", {
+      after: undefined,
+    });
+  });
+
+  it("marks undelivered messages as failed until retried", async () => {
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    const emit = client.emit.getMockImplementation();
+    client.emit.mockImplementation((name, data) =>
+      name === "textMessage"
+        ? Promise.reject(new Error("timeout"))
+        : emit?.(name, data)
+    );
+    await actHook(() =>
+      expect(result.current.sendMessage("Hello")).rejects.toThrow("timeout")
+    );
+    expect(result.current.messages[0].status).toBe("failed");
+
+    client.emit.mockImplementation(emit);
+    const { clientMessageId } = result.current.messages[0];
+    await actHook(() => result.current.retryMessage(clientMessageId as string));
+    expect(result.current.messages).toMatchObject([
+      { contents: "Hello", id: "message-1", status: "sent" },
+    ]);
+  });
+
+  it("sends direct messages", async () => {
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    await actHook(() => result.current.sendMessage("Hello", { userId: "2" }));
+    expect(client.emit).toHaveBeenCalledWith("textMessage", {
+      contents: "Hello",
+      clientMessageId: expect.any(String),
+      to: { userId: "2" },
+    });
+    expect(Object.keys(result.current.conversations)).toEqual(["user:2"]);
+    expect(result.current.conversations["user:2"][0]).toMatchObject({
+      contents: "Hello",
+      to: { userId: "2" },
+      status: "sent",
+    });
+  });
+
+  it("screens messages with moderation", async () => {
+    const onMessageBlocked = jest.fn();
+    const { result } = renderHook(() =>
+      useConnectCall({
+        call,
+        user,
+        onNewMessage,
+        onMessageBlocked,
+        options: {
+          moderation: {
+            deniedWords: ["darn"],
+            rules: [{ pattern: /escape/, action: "block" }],
+          },
+        },
+      })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    await act(async () => {
+      client.sendServerEvent("textMessage", {
+        id: "message-1",
+        from: { id: "2", role: Role.visitParticipant },
+        contents: "darn",
+        timestamp: "2021-11-23T12:34:56.789Z",
+      });
+      client.sendServerEvent("textMessage", {
+        id: "message-2",
+        from: { id: "2", role: Role.visitParticipant },
+        contents: "escape",
+        timestamp: "2021-11-23T12:34:56.789Z",
+      });
+    });
+
+    expect(result.current.messages).toMatchObject([
+      {
+        contents: "****",
+        moderation: { flagged: false, redacted: true },
+      },
+    ]);
+    expect(onMessageBlocked).toHaveBeenCalledWith({
+      direction: "incoming",
+      user: { id: "2", role: Role.visitParticipant },
+      reasons: ["matched /escape/"],
+    });
+
+    await actHook(() =>
+      expect(result.current.sendMessage("escape")).rejects.toThrow(
+        "Message was blocked"
+      )
+    );
+    expect(client.emit).not.toHaveBeenCalledWith(
+      "textMessage",
+      expect.anything()
+    );
+    expect(onMessageBlocked).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends screened messages redacted, with the original for monitors", async () => {
+    const { result } = renderHook(() =>
+      useConnectCall({
+        call,
+        user,
+        options: { moderation: { deniedWords: ["darn"] } },
+      })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    await actHook(() => result.current.sendMessage("darn it"));
+    expect(client.emit).toHaveBeenCalledWith("textMessage", {
+      contents: "**** it",
+      clientMessageId: expect.any(String),
+      screening: {
+        flagged: false,
+        redacted: true,
+        reasons: ["denied word"],
+        originalContents: "darn it",
+      },
+    });
+    expect(result.current.messages).toMatchObject([
+      { contents: "**** it", moderation: { redacted: true } },
+    ]);
+
+    await act(async () => {
+      client.sendServerEvent("textMessage", {
+        id: "message-2",
+        from: { id: "2", role: Role.visitParticipant },
+        contents: "**** no",
+        timestamp: "2021-11-23T12:34:56.789Z",
+        screening: { flagged: true, redacted: true, reasons: ["custom check"] },
+      });
+      // even if the server relays the original by mistake
+      client.sendServerEvent("textMessage", {
+        id: "message-3",
+        from: { id: "2", role: Role.visitParticipant },
+        contents: "**** off",
+        timestamp: "2021-11-23T12:34:56.789Z",
+        screening: {
+          flagged: false,
+          redacted: true,
+          reasons: ["custom check"],
+          originalContents: "gosh off",
+        },
+      });
+    });
+    expect(result.current.messages.slice(1)).toMatchObject([
+      {
+        contents: "**** no",
+        moderation: {
+          flagged: true,
+          redacted: true,
+          reasons: ["custom check"],
+        },
+      },
+      { contents: "**** off", moderation: { redacted: true } },
+    ]);
+    expect(JSON.stringify(result.current.messages)).not.toContain("gosh");
+  });
+
+  it("shows screened messages to monitors in full", async () => {
+    client.prepareServerResponse("join", {
+      role: Role.monitor,
+      userId: "1",
+      status: [],
+      consumerTransportInfo: {} as never,
+      routerRtpCapabilities: {},
+    });
+    const onMessageBlocked = jest.fn();
+    const { result } = renderHook(() =>
+      useConnectCall({
+        call,
+        user,
+        onMessageBlocked,
+        options: {
+          moderation: {
+            rules: [{ pattern: /escape/, action: "block" }],
+          },
+        },
+      })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    await act(async () => {
+      client.sendServerEvent("textMessage", {
+        id: "message-1",
+        from: { id: "2", role: Role.visitParticipant },
+        contents: "**** no",
+        timestamp: "2021-11-23T12:34:56.789Z",
+        screening: {
+          flagged: false,
+          redacted: true,
+          reasons: ["denied word"],
+          originalContents: "heck no",
+        },
+      });
+      client.sendServerEvent("textMessage", {
+        id: "message-2",
+        from: { id: "2", role: Role.visitParticipant },
+        contents: "escape",
+        timestamp: "2021-11-23T12:34:56.789Z",
+      });
+    });
+
+    expect(result.current.messages).toMatchObject([
+      {
+        contents: "heck no",
+        moderation: {
+          flagged: true,
+          redacted: false,
+          reasons: ["denied word"],
+        },
+      },
+      {
+        contents: "escape",
+        moderation: {
+          flagged: true,
+          redacted: false,
+          reasons: ["matched /escape/"],
+        },
+      },
+    ]);
+    expect(onMessageBlocked).not.toHaveBeenCalled();
+  });
+
+  it("lets monitors moderate the call", async () => {
+    client.prepareServerResponse("join", {
+      role: Role.monitor,
+      userId: "1",
+      status: [],
+      consumerTransportInfo: {} as never,
+      routerRtpCapabilities: {},
+    });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    await actHook(() => result.current.lockRoom());
+    await actHook(() => result.current.warnParticipant("2", "Keep it civil"));
+    await actHook(() => result.current.removeParticipant("2", "Contraband"));
+    expect(client.emit).toHaveBeenCalledWith("lockRoom", {});
+    expect(client.emit).toHaveBeenCalledWith("warnParticipant", {
+      targetUserId: "2",
+      message: "Keep it civil",
+    });
+    expect(client.emit).toHaveBeenCalledWith("removeParticipant", {
+      targetUserId: "2",
+      reason: "Contraband",
+    });
+
+    const entry = {
+      actor: { id: "1", role: Role.monitor },
+      action: "lockRoom" as const,
+      timestamp: "2021-11-23T12:34:56.789Z",
+    };
+    act(() => {
+      client.sendServerEvent("auditEntry", entry);
+      client.sendServerEvent("state", {
+        participants: {},
+        status: CallStatus.live,
+        locked: true,
+      });
+    });
+    await waitFor(() => expect(result.current.roomLocked).toBe(true));
+    expect(result.current.auditTrail).toEqual([entry]);
+  });
+
+  it("only lets monitors use the console", async () => {
+    const onWarning = jest.fn();
+    const { result } = renderHook(() =>
+      useConnectCall({ call, user, onWarning })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    await actHook(() =>
+      expect(result.current.lockRoom()).rejects.toThrow(PermissionError)
+    );
+    expect(client.emit).not.toHaveBeenCalledWith("lockRoom", {});
+
+    const warning = {
+      from: { id: "3", role: Role.monitor },
+      message: "Keep it civil",
+    };
+    act(() => client.sendServerEvent("warning", warning));
+    expect(onWarning).toHaveBeenCalledWith(warning);
+  });
+
+  it("checks capabilities before emitting", async () => {
+    client.prepareServerResponse("join", {
+      role: Role.webinarAttendee,
+      userId: "1",
+      status: [],
+      consumerTransportInfo: {} as never,
+      routerRtpCapabilities: {},
+    });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    expect(result.current.can("raiseHand")).toBe(false);
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    expect(result.current.can("raiseHand")).toBe(true);
+    expect(result.current.can("terminate")).toBe(false);
+    await actHook(() =>
+      expect(result.current.terminate()).rejects.toMatchObject({
+        action: "terminate",
+        role: Role.webinarAttendee,
+      })
+    );
+    expect(client.emit).not.toHaveBeenCalledWith("terminate", {});
+  });
+
+  it("prefers capabilities granted by the server", async () => {
+    client.prepareServerResponse("join", {
+      role: Role.webinarAttendee,
+      userId: "1",
+      status: [],
+      consumerTransportInfo: {} as never,
+      routerRtpCapabilities: {},
+      capabilities: ["terminate"],
+    });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    expect(result.current.can("terminate")).toBe(true);
+    expect(result.current.can("raiseHand")).toBe(false);
+  });
+
+  it("promotes attendees to the stage and back", async () => {
+    client.prepareServerResponse("join", {
+      role: Role.webinarAttendee,
+      userId: "1",
+      status: [],
+      consumerTransportInfo: {} as never,
+      routerRtpCapabilities: {},
+    });
+    client.prepareServerResponse("respondToStageInvitation", {
+      producerTransportInfo: {} as never,
+    });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    expect(result.current.transportStates?.producer).toBeUndefined();
+
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {},
+        status: CallStatus.live,
+        stage: { onStage: [], invited: ["1"] },
+      });
+    });
+    await waitFor(() => expect(result.current.invitedToStage).toBe(true));
+
+    await actHook(() => result.current.acceptStageInvitation());
+    expect(client.emit).toHaveBeenCalledWith("respondToStageInvitation", {
+      accept: true,
+    });
+    expect(result.current.transportStates?.producer).toBe("new");
+
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {},
+        status: CallStatus.live,
+        stage: { onStage: ["1"], invited: [] },
+      });
+    });
+    await waitFor(() => expect(result.current.stage.onStage).toEqual(["1"]));
+    const track = (
+      await navigator.mediaDevices.getUserMedia({ video: true })
+    ).getVideoTracks()[0];
+    await actHook(() =>
+      result.current.produceTrack(track, ProducerLabel.video)
+    );
+    expect(result.current.localProducers[ProducerLabel.video]).toBeDefined();
+
+    // demoted by the host
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {},
+        status: CallStatus.live,
+        stage: { onStage: [], invited: [] },
+      });
+    });
+    await waitFor(() => expect(result.current.localProducers).toEqual({}));
+    expect(track.stop).not.toHaveBeenCalled();
+    expect(result.current.transportStates?.producer).toBeUndefined();
+  });
+
+  it("orders raised hands by when they were raised", async () => {
+    client.prepareServerResponse("join", {
+      role: Role.webinarHost,
+      userId: "1",
+      status: [],
+      consumerTransportInfo: {} as never,
+      routerRtpCapabilities: {},
+    });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    const attendee = (id: string, handRaisedAt?: string) => ({
+      peerId: `socket-${id}`,
+      user: { id, role: Role.webinarAttendee },
+      connectionState,
+      status: handRaisedAt ? [UserStatus.HandRaised] : [],
+      handRaisedAt,
+      consumers: {},
+      manualConsumerPauses: {},
+    });
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {
+          "socket-2": attendee("2", "2021-11-23T12:00:05.000Z"),
+          "socket-3": attendee("3", "2021-11-23T12:00:01.000Z"),
+        },
+        status: CallStatus.live,
+      });
+    });
+    await waitFor(() =>
+      expect(result.current.handQueue.map((h) => h.user.id)).toEqual(["3", "2"])
+    );
+    expect(result.current.handQueue[0].raisedAt).toEqual(
+      new Date("2021-11-23T12:00:01.000Z")
+    );
+
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {
+          "socket-2": attendee("2", "2021-11-23T12:00:05.000Z"),
+          "socket-3": attendee("3"),
+        },
+        status: CallStatus.live,
+      });
+    });
+    await waitFor(() => expect(result.current.handQueue).toHaveLength(1));
+
+    await actHook(() => result.current.lowerAllHands());
+    expect(client.emit).toHaveBeenCalledWith("lowerAllHands", {});
+  });
+
+  it("tracks timers from the room state", async () => {
+    const { result } = renderHook(() => {
+      const connectCall = useConnectCall({ call, user });
+      return { ...connectCall, timers: useCallTimers(connectCall) };
+    });
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {},
+        status: CallStatus.live,
+        timers: { maxDuration: { msRemaining: 600000, msElapsed: 60000 } },
+      });
+    });
+    await waitFor(() =>
+      expect(result.current.timers.maxDuration).toEqual({
+        name: "maxDuration",
+        msRemaining: 600000,
+        msElapsed: 60000,
+        expired: false,
+      })
+    );
+  });
+
+  it("runs a pre-call check before joining", async () => {
+    const { result, rerender } = renderHook(
+      ({ join }) => useConnectCall({ call, user, join }),
+      { initialProps: { join: false } }
+    );
+
+    (Client.open as jest.Mock).mockReturnValueOnce(client);
+    client.connectionMonitor.start.mockImplementation(() =>
+      client.connectionMonitor.emitter.emit("ping", 40)
+    );
+    Object.assign(client.connectionMonitor, {
+      quality: { quality: ConnectionStateQuality.excellent, ping: 40 },
+    });
+    await actHook(async () => {
+      await result.current.runPreCallCheck({
+        pings: 1,
+        camera: false,
+        connectivity: false,
+      });
+    });
+
+    expect(result.current.preCallReport).toMatchObject({
+      outcome: "pass",
+      latency: { ping: 40 },
+    });
+    expect(result.current.clientStatus).toBe("initializing");
+    expect(client.emit).not.toHaveBeenCalledWith("join", expect.anything());
+
+    rerender({ join: true });
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+  });
+
+  it("uses the deployment's ICE servers", async () => {
+    const iceServers = [{ urls: "stun:stun.example.com" }];
+    const { result } = renderHook(() =>
+      useConnectCall({ call, user, options: { iceServers } })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    expect(transports.map((t: { options: unknown }) => t.options)).toEqual([
+      expect.objectContaining({ iceServers }),
+      expect.objectContaining({ iceServers }),
+    ]);
+
+    (Client.open as jest.Mock).mockReturnValueOnce(client);
+    client.connectionMonitor.start.mockImplementation(() =>
+      client.connectionMonitor.emitter.emit("ping", 40)
+    );
+    Object.assign(client.connectionMonitor, {
+      quality: { quality: ConnectionStateQuality.excellent, ping: 40 },
+    });
+    // gathers a server reflexive candidate
+    class FakePeerConnection {
+      static configs: unknown[] = [];
+      onicecandidate?: (e: { candidate: unknown }) => void;
+      createDataChannel = jest.fn();
+      createOffer = async () => ({ type: "offer", sdp: "" });
+      close = jest.fn();
+
+      constructor(config: unknown) {
+        FakePeerConnection.configs.push(config);
+      }
+
+      async setLocalDescription() {
+        this.onicecandidate?.({ candidate: { type: "srflx" } });
+        this.onicecandidate?.({ candidate: null });
+      }
+    }
+    Object.defineProperty(window, "RTCPeerConnection", {
+      writable: true,
+      value: FakePeerConnection,
+    });
+    try {
+      await actHook(async () => {
+        await result.current.runPreCallCheck({
+          camera: false,
+          microphone: false,
+          pings: 1,
+        });
+      });
+      expect(FakePeerConnection.configs).toEqual([
+        { iceServers, iceTransportPolicy: "all" },
+      ]);
+      expect(result.current.preCallReport?.connectivity).toMatchObject({
+        outcome: "pass",
+        candidateTypes: ["srflx"],
+      });
+    } finally {
+      delete (window as { RTCPeerConnection?: unknown }).RTCPeerConnection;
+    }
+  });
+
+  it("waits in the waiting room until admitted", async () => {
+    client.prepareServerResponse("join", { waiting: true, position: 2 });
+    const onWaiting = jest.fn();
+    const { result } = renderHook(() =>
+      useConnectCall({ call, user, options: { onWaiting } })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("waiting"));
+    expect(result.current.waitingPosition).toBe(2);
+
+    act(() => client.sendServerEvent("waitingRoom", { position: 1 }));
+    await waitFor(() => expect(result.current.waitingPosition).toBe(1));
+    expect(onWaiting.mock.calls).toEqual([[2], [1]]);
+    // media is only set up once admitted
+    expect(client.emit).not.toHaveBeenCalledWith(
+      "declareRtpCapabilities",
+      expect.anything()
+    );
+
+    act(() =>
+      client.sendServerEvent("admitted", {
+        role: Role.visitParticipant,
+        userId: "1",
+        status: [],
+        consumerTransportInfo: {} as never,
+        routerRtpCapabilities: {},
+      })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    expect(result.current.waitingPosition).toBeUndefined();
+    expect(client.emit).toHaveBeenCalledWith(
+      "declareRtpCapabilities",
+      expect.anything()
+    );
+  });
+
+  it("stops waiting when denied", async () => {
+    client.prepareServerResponse("join", { waiting: true, position: 1 });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("waiting"));
+
+    act(() => client.sendServerEvent("denied", { reason: "Not on the list" }));
+    await waitFor(() =>
+      expect(result.current.clientStatus).toBe("disconnected")
+    );
+    expect(result.current.disconnectReason).toBe("denied");
+    expect(result.current.error).toBeInstanceOf(AdmissionDeniedError);
+    expect(result.current.error?.message).toBe(
+      "Admission was denied: Not on the list"
+    );
+    expect(client.close).toHaveBeenCalled();
+    expect(Client.connect).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets monitors admit and deny entrants", async () => {
+    client.prepareServerResponse("join", {
+      role: Role.monitor,
+      userId: "1",
+      status: [],
+      consumerTransportInfo: {} as never,
+      routerRtpCapabilities: {},
+    });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    const entrant = {
+      user: { id: "4", role: Role.visitParticipant },
+      since: "2021-11-23T12:34:56.789Z",
+    };
+    act(() => {
+      client.sendServerEvent("state", {
+        participants: {},
+        status: CallStatus.live,
+        waiting: [entrant],
+      });
+    });
+    await waitFor(() => expect(result.current.entrants).toEqual([entrant]));
+
+    await actHook(() => result.current.admitEntrant("4"));
+    await actHook(() => result.current.denyEntrant("5", "Not on the list"));
+    expect(client.emit).toHaveBeenCalledWith("admitEntrant", {
+      targetUserId: "4",
+    });
+    expect(client.emit).toHaveBeenCalledWith("denyEntrant", {
+      targetUserId: "5",
+      reason: "Not on the list",
+    });
+  });
+
+  it("announces each call status transition once", async () => {
+    const onCallStatusChange = jest.fn();
+    const onMissingMonitor = jest.fn();
+    const onCallEnded = jest.fn();
+    const { result } = renderHook(() =>
+      useConnectCall({
+        call,
+        user,
+        onCallStatusChange,
+        onMissingMonitor,
+        onCallEnded,
+      })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    const track = (
+      await navigator.mediaDevices.getUserMedia({ audio: true })
+    ).getAudioTracks()[0];
+    await actHook(() =>
+      result.current.produceTrack(track, ProducerLabel.audio)
+    );
+
+    const sendStatus = (status: CallStatus) =>
+      act(() => client.sendServerEvent("state", { participants: {}, status }));
+    sendStatus(CallStatus.live);
+    sendStatus(CallStatus.live);
+    sendStatus(CallStatus.missing_monitor);
+    sendStatus(CallStatus.missing_monitor);
+    await waitFor(() =>
+      expect(result.current.callStatus).toBe(CallStatus.missing_monitor)
+    );
+    expect(result.current.previousCallStatus).toBe(CallStatus.live);
+    expect(onCallStatusChange.mock.calls).toEqual([
+      [{ previous: undefined, status: CallStatus.live }],
+      [{ previous: CallStatus.live, status: CallStatus.missing_monitor }],
+    ]);
+    expect(onMissingMonitor).toHaveBeenCalledTimes(1);
+    expect(result.current.localProducers[ProducerLabel.audio]).toBeDefined();
+
+    sendStatus(CallStatus.ended);
+    await waitFor(() => expect(result.current.localProducers).toEqual({}));
+    expect(onCallEnded).toHaveBeenCalledTimes(1);
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it("fails to produce when the server does not acknowledge", async () => {
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+
+    const [, handleProduce] = transports
+      .flatMap((t: { on: jest.Mock }) => t.on.mock.calls)
+      .find(([event]: [string]) => event === "produce");
+    const timeout = new AckTimeoutError("produce", {} as never, 100, 3);
+    client.emit.mockImplementation(async (name: string) => {
+      if (name === "produce") throw timeout;
+    });
+
+    const callback = jest.fn();
+    const errback = jest.fn();
+    await handleProduce(
+      { kind: "audio", rtpParameters: {}, appData: { label: "audio" } },
+      callback,
+      errback
+    );
+    expect(callback).not.toHaveBeenCalled();
+    expect(errback).toHaveBeenCalledWith(timeout);
+  });
+
+  it("keeps watching stats across rebuilt clients", async () => {
+    const { result } = renderHook(() => {
+      const connectCall = useConnectCall({
+        call,
+        user,
+        options: { statsInterval: 50, resumeGracePeriod: 100 },
+      });
+      return { connectCall, stats: useCallStats(connectCall) };
+    });
+    // watching before the client connects
+    expect(result.current.connectCall.clientStatus).not.toBe("connected");
+    await waitFor(() => expect(result.current.stats).toBeDefined());
+    const transport: MockTransport = transports[transports.length - 1];
+
+    act(() => {
+      client.sendServerEvent("disconnect", "transport close");
+    });
+    await waitFor(() => expect(Client.connect).toHaveBeenCalledTimes(2));
+    await waitFor(() =>
+      expect(result.current.connectCall.clientStatus).toBe("connected")
+    );
+    const rebuilt: MockTransport = transports[transports.length - 1];
+    expect(rebuilt).not.toBe(transport);
+    const collected = transport.getStats.mock.calls.length;
+    await waitFor(() => expect(rebuilt.getStats).toHaveBeenCalled());
+    expect(transport.getStats).toHaveBeenCalledTimes(collected);
+  });
+
+  it("drops inherited producers that a rebuilt client can't produce", async () => {
+    const { result } = renderHook(() =>
+      useConnectCall({ call, user, options: { resumeGracePeriod: 100 } })
+    );
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    const track = (
+      await navigator.mediaDevices.getUserMedia({ video: true })
+    ).getVideoTracks()[0];
+    await actHook(() =>
+      result.current.produceTrack(track, ProducerLabel.video)
+    );
+
+    // taken off the stage while disconnected
+    client.prepareServerResponse("join", {
+      role: Role.webinarAttendee,
+      userId: "1",
+      status: [],
+      consumerTransportInfo: {} as never,
+      routerRtpCapabilities: {},
+    });
+    act(() => {
+      client.sendServerEvent("disconnect", "transport close");
+    });
+    await waitFor(() => expect(Client.connect).toHaveBeenCalledTimes(2));
+    await waitFor(() => expect(result.current.localProducers).toEqual({}));
+    expect(result.current.clientStatus).toBe("connected");
+    expect(
+      result.current.timeline.entries({ types: ["producerDropped"] })
+    ).toMatchObject([
+      {
+        type: "producerDropped",
+        label: ProducerLabel.video,
+        reason: "RoomClient is not able to produce media",
+      },
+    ]);
+    expect(track.stop).not.toHaveBeenCalled();
+  });
+
+  it("leaves the waiting room when disconnected", async () => {
+    client.prepareServerResponse("join", { waiting: true, position: 2 });
+    const { result } = renderHook(() => useConnectCall({ call, user }));
+    await waitFor(() => expect(result.current.clientStatus).toBe("waiting"));
+
+    await actHook(() => result.current.disconnect());
+    expect(result.current.clientStatus).toBe("disconnected");
+    expect(result.current.waitingPosition).toBeUndefined();
+    await waitFor(() => expect(client.close).toHaveBeenCalled());
+
+    // admitted after leaving
+    act(() =>
+      client.sendServerEvent("admitted", {
+        role: Role.visitParticipant,
+        userId: "1",
+        status: [],
+        consumerTransportInfo: {} as never,
+        routerRtpCapabilities: {},
+      })
+    );
+    await actHook(() => new Promise((resolve) => setTimeout(resolve, 100)));
+    expect(result.current.clientStatus).toBe("disconnected");
+    expect(client.emit).not.toHaveBeenCalledWith(
+      "declareRtpCapabilities",
+      expect.anything()
+    );
+  });
+
+  it("reports failures to collect stats", async () => {
+    const onError = jest.fn();
+    const { result } = renderHook(() => {
+      const connectCall = useConnectCall({
+        call,
+        user,
+        onError,
+        options: { statsInterval: 50 },
+      });
+      return { ...connectCall, stats: useCallStats(connectCall) };
+    });
+    await waitFor(() => expect(result.current.clientStatus).toBe("connected"));
+    const failure = new Error("getStats failed");
+    transports.forEach((t: MockTransport) =>
+      t.getStats.mockRejectedValue(failure)
+    );
+
+    await waitFor(() => expect(onError).toHaveBeenCalledWith(failure));
+  });
 });
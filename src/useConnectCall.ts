@@ -1,43 +1,79 @@
-import { useCallback, useEffect, useRef, useState } from "react";
-import { CallStatus, DisconnectReason, ProducerLabel, Role, User } from "./API";
-import RoomClient, { Peer } from "./RoomClient";
-
-export enum ClientStatus {
-  initializing = "initializing",
-  errored = "errored",
-  connected = "connected",
-  disconnected = "disconnected",
-}
-
-type Props = {
-  call?: {
-    id: string;
-    url: string;
-    token: string;
-  };
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  AuditEntry,
+  CallStatus,
+  DisconnectReason,
+  MessageRecipient,
+  ProducerLabel,
+  Stage,
+  User,
+  WaitingEntrant,
+} from "./API";
+import CallStore, {
+  CallDetails,
+  ClientStatus,
+  LocalProducers,
+} from "./CallStore";
+import CallTimeline from "./CallTimeline";
+import { TimerWarning } from "./CallTimers";
+import { CallAction } from "./capabilities";
+import { groupConversations, Message } from "./ChatLog";
+import { ConsumerHints } from "./LayerManager";
+import { SelectedDevices } from "./MediaDeviceManager";
+import { PreCallCheckOptions, PreCallReport } from "./PreCallCheck";
+import { ProducerPreset, ProducerProfile } from "./producerProfiles";
+import {
+  BlockedMessage,
+  CallStatusChange,
+  ConnectOptions,
+  Peer,
+  RaisedHand,
+  TransportStates,
+} from "./RoomClient";
+import useSyncExternalStore from "./useSyncExternalStore";
+
+export { ClientStatus } from "./CallStore";
+export type { Message, MessageStatus } from "./ChatLog";
+
+export type ConnectCallProps = {
+  call?: CallDetails;
   user: Pick<User, "id">;
+  options?: ConnectOptions;
+  // whether to join the call, defaults to true. Join later to stay in a lobby,
+  // e.g. to runPreCallCheck first.
+  join?: boolean;
   onMonitorJoined?: (user: string) => void;
   onPeerConnected?: (user: User) => void;
   onPeerDisconnected?: (user: User) => void;
   onTimer?: (name: string, msRemaining: number, msElapsed: number) => void;
+  onTimerWarning?: (warning: TimerWarning) => void;
   onNewMessage?: (message: Message) => void;
-};
-
-export type Message = {
-  user: User;
-  contents: string;
-  timestamp: Date;
+  onMessageBlocked?: (message: BlockedMessage) => void;
+  onWarning?: (warning: { from: User; message: string }) => void;
+  onCallStatusChange?: (change: CallStatusChange) => void;
+  onCallEnded?: () => void;
+  onCallTerminated?: () => void;
+  onMissingMonitor?: () => void;
+  onNoShow?: () => void;
+  // failures of work in the background, e.g. collecting stats or listing
+  // devices
+  onError?: (error: Error) => void;
 };
 
 export type ConnectCall = {
   clientStatus: ClientStatus;
   callStatus?: CallStatus;
+  // the call status before the latest transition
+  previousCallStatus?: CallStatus;
   error?: Error;
+  transportStates?: TransportStates;
   user?: Peer;
-  localProducers: Partial<
-    Record<ProducerLabel, { stream: MediaStream; paused: boolean }>
-  >;
+  localProducers: LocalProducers;
   closeProducer: (label: ProducerLabel) => Promise<void>;
+  setProducerProfile: (
+    label: ProducerLabel,
+    profile: ProducerProfile | ProducerPreset
+  ) => Promise<void>;
   pauseProducer: (label: ProducerLabel) => void;
   resumeProducer: (label: ProducerLabel) => void;
   disconnectReason?: DisconnectReason;
@@ -46,17 +82,36 @@ export type ConnectCall = {
     track: MediaStreamTrack,
     label: ProducerLabel
   ) => Promise<void>;
+  replaceTrack: (
+    label: ProducerLabel,
+    track: MediaStreamTrack
+  ) => Promise<void>;
+  produceDevice: (
+    label: ProducerLabel.audio | ProducerLabel.video
+  ) => Promise<void>;
+  devices: MediaDeviceInfo[];
+  selectedDevices: SelectedDevices;
+  selectDevice: (kind: MediaDeviceKind, deviceId: string) => Promise<void>;
+  // plays peer audio through the selected speaker, see MediaDeviceManager
+  attachAudioOutput: (element: HTMLMediaElement) => () => void;
   peers: Record<string, Peer>;
   monitors: Record<string, Peer>;
+  activeSpeakerPeerId?: string;
+  // see useAudioLevels
+  watchAudioLevels: CallStore["watchAudioLevels"];
   messages: Message[];
-  sendMessage: (contents: string) => Promise<void>;
+  // messages by conversation, see conversationId
+  conversations: Record<string, Message[]>;
+  sendMessage: (contents: string, to?: MessageRecipient) => Promise<void>;
+  retryMessage: (clientMessageId: string) => Promise<void>;
   setPreferredSimulcastLayer: (x: {
     consumerId: string;
     spatialLayer: number;
     temporalLayer?: number;
   }) => Promise<void>;
+  setConsumerHints: (consumerId: string, hints: Partial<ConsumerHints>) => void;
   terminateCall: () => Promise<void>;
-  textMessage: (contents: string) => Promise<void>;
+  textMessage: (contents: string, to?: MessageRecipient) => Promise<void>;
   terminate: () => Promise<void>;
   remoteAudioMute: (targetUserId: string) => Promise<void>;
   remoteAudioUnmute: (targetUserId: string) => Promise<void>;
@@ -68,9 +123,42 @@ export type ConnectCall = {
   lowerHand: () => Promise<void>;
   enableFrux: () => void;
   remoteLowerHand: (targetUserId: string) => Promise<void>;
+  lowerAllHands: () => Promise<void>;
+  // raised hands, oldest first
+  handQueue: RaisedHand[];
+  // see useCallTimers
+  watchTimers: CallStore["watchTimers"];
+  can: (action: CallAction) => boolean;
+  stage: Stage;
+  invitedToStage: boolean;
+  inviteToStage: (targetUserId: string) => Promise<void>;
+  removeFromStage: (targetUserId: string) => Promise<void>;
+  acceptStageInvitation: () => Promise<void>;
+  declineStageInvitation: () => Promise<void>;
+  leaveStage: () => Promise<void>;
+  removeParticipant: (targetUserId: string, reason?: string) => Promise<void>;
+  lockRoom: () => Promise<void>;
+  unlockRoom: () => Promise<void>;
+  warnParticipant: (targetUserId: string, message: string) => Promise<void>;
+  roomLocked: boolean;
+  // our place in the waiting room queue, starting at 1
+  waitingPosition?: number;
+  // entrants waiting to be admitted, for monitors and hosts
+  entrants: WaitingEntrant[];
+  admitEntrant: (targetUserId: string) => Promise<void>;
+  denyEntrant: (targetUserId: string, reason?: string) => Promise<void>;
+  // moderation actions taken since joining, for monitors
+  auditTrail: AuditEntry[];
   disconnect: () => Promise<void>;
   enableConnectionMonitoring: () => void;
   disableConnectionMonitoring: () => void;
+  watchStats: CallStore["watchStats"];
+  preCallReport?: PreCallReport;
+  runPreCallCheck: (
+    options?: Partial<PreCallCheckOptions>
+  ) => Promise<PreCallReport>;
+  timeline: CallTimeline;
+  exportTimeline: () => string;
 
   // Debugging only
   simulatePingLatency: (ping: number) => void;
@@ -108,24 +196,50 @@ function useChangeTracker<T>({
 }
 
 /**
- * useConnectCall integrates with RoomClient and provides observable values.
+ * useCallStore creates a CallStore that connects to the call while the
+ * component is mounted, and calls back as the call changes. It only re-renders
+ * when peers or monitors change.
  */
-const useConnectCall = ({
+export function useCallStore({
   call,
-  user,
+  options,
+  join = true,
   onMonitorJoined,
   onPeerConnected,
   onPeerDisconnected,
   onTimer,
   onNewMessage,
-}: Props): ConnectCall => {
-  const [client, setClient] = useState<RoomClient>();
-  const [localProducers, setLocalProducers] = useState<
-    Partial<Record<ProducerLabel, { stream: MediaStream; paused: boolean }>>
-  >({});
+  onMessageBlocked,
+  onWarning,
+  onTimerWarning,
+  onCallStatusChange,
+  onCallEnded,
+  onCallTerminated,
+  onMissingMonitor,
+  onNoShow,
+  onError,
+}: Omit<ConnectCallProps, "user">): CallStore {
+  const [store] = useState(() => new CallStore({ call, options }));
+
+  // options are only read when connecting, so changes to them should not
+  // trigger a reconnection.
+  store.setOptions(options);
+
+  useEffect(() => store.setCall(call), [store, call]);
+
+  const peers = useSyncExternalStore(
+    store.subscribe,
+    () => store.getSnapshot().peers
+  );
+  const monitors = useSyncExternalStore(
+    store.subscribe,
+    () => store.getSnapshot().monitors
+  );
 
-  const [peers, setPeers] = useState<Record<string, Peer>>({});
-  const [monitors, setMonitors] = useState<Record<string, Peer>>({});
+  useEffect(() => {
+    store.deviceManager.start();
+    return () => store.deviceManager.stop();
+  }, [store]);
 
   useChangeTracker({
     onAdd: (peer) => onPeerConnected?.(peer.user),
@@ -138,172 +252,31 @@ const useConnectCall = ({
     object: monitors,
   });
 
-  const [trackedUser, setTrackedUser] = useState<Peer>();
-
-  const [messages, setMessages] = useState<Message[]>([]);
-
-  const [error, setError] = useState<Error>();
-  const [clientStatus, setClientStatus] = useState<ClientStatus>(
-    ClientStatus.initializing
-  );
-  const [callStatus, setCallStatus] = useState<CallStatus>();
-
-  const [disconnectReason, setDisconnectReason] = useState<DisconnectReason>();
-  const [automaticallyInit, setAutomaticallyInit] = useState(true);
-
   // To avoid problems with react strict mode,
-  // don't initialize until 10 ms have passed without unmounting.
-  const [debounceReady, setDebounceReady] = useState(false);
+  // don't connect until 10 ms have passed without unmounting.
+  // Unmounting, or no longer joining, disconnects and cleans up everything.
   useEffect(() => {
-    const debounceTimeout = setTimeout(() => {
-      setDebounceReady(true);
-    }, 10);
-    return () => clearTimeout(debounceTimeout);
-  }, []);
-
-  const bindClient = useCallback((client: RoomClient) => {
-    client.on("peers", (p) => {
-      setPeers(
-        Object.fromEntries(
-          Object.entries(p).filter(
-            ([_, { user }]) => user.role !== Role.monitor
-          )
-        )
-      );
-      setMonitors(
-        Object.fromEntries(
-          Object.entries(p).filter(
-            ([_, { user }]) => user.role === Role.monitor
-          )
-        )
-      );
-    });
-    client.on("self", (u) => setTrackedUser(u));
-    client.on("status", (s) => setCallStatus(s));
-    client.on("localProducers", (p) => {
-      setLocalProducers(p);
-    });
-
-    // Request most recent state
-    client.emitState();
-
-    // When we disconnect, reinitialize
-    client.on("disconnect", (reason: DisconnectReason) => {
-      if (client) client.close();
-
-      setClient(undefined);
-      setDisconnectReason(reason);
-      if (reason === DisconnectReason.error) {
-        setAutomaticallyInit(true);
-      }
-    });
-  }, []);
-
-  const [fruxEnabled, setFruxEnabled] = useState(false);
-
-  const enableFrux = useCallback(() => {
-    setFruxEnabled(true);
-  }, []);
-
-  const simulatePingLatency = useCallback(
-    (ping: number) => {
-      if (client) client.simulatePingLatency(ping);
-    },
-    [client]
-  );
-
-  const stopSimulatingPingLatency = useCallback(() => {
-    if (client) client.stopSimulatingPingLatency();
-  }, [client]);
-
-  // Respond to fruxEnabled.
-  // This way, if fruxEnabled is set before the client is initialized,
-  // we will still respond.
-  useEffect(() => {
-    if (fruxEnabled && client) {
-      client.enableFrux();
-    }
-  }, [fruxEnabled, client]);
-
-  const reinitializeClient = useCallback(
-    async (
-      producers: Partial<
-        Record<ProducerLabel, { stream: MediaStream; paused: boolean }>
-      >
-    ) => {
-      if (call?.id === undefined) return;
-
-      try {
-        const client = await RoomClient.connect({
-          id: call.id,
-          url: call.url,
-          token: call.token,
-        });
-
-        setClient(client);
-        setClientStatus(ClientStatus.connected);
-        bindClient(client);
-
-        // Produce inherited streams
-        Object.values(ProducerLabel).forEach((label) => {
-          const producer = producers[label];
-          if (producer) {
-            const track =
-              label === ProducerLabel.audio
-                ? producer.stream.getAudioTracks()[0]
-                : producer.stream.getVideoTracks()[0];
-
-            client.produce(track, label);
-          }
-        });
-      } catch (error) {
-        setClientStatus(ClientStatus.errored);
-        if (error instanceof Error) {
-          setError(error);
-        }
-      }
-    },
-    [call, bindClient]
-  );
-
-  const manuallyReconnect = useCallback(() => {
-    setAutomaticallyInit(true);
-  }, []);
-
-  // create a client for the call, subject to debounce
-  useEffect(() => {
-    if (!debounceReady) return;
-
-    if (!client && automaticallyInit) {
-      setAutomaticallyInit(false);
-      setDisconnectReason(undefined);
-      reinitializeClient(localProducers);
-    }
-  }, [
-    debounceReady,
-    reinitializeClient,
-    client,
-    localProducers,
-    automaticallyInit,
-  ]);
+    if (!join) return;
+    const debounceTimeout = setTimeout(() => void store.connect(), 10);
+    return () => {
+      clearTimeout(debounceTimeout);
+      void store.disconnect();
+    };
+  }, [store, join]);
 
   // "message" and "timer" handlers may change over time,
   // and we can afford to miss quick ones at the very start.
   // useEffect to bind/unbind these when they change.
   useEffect(() => {
-    if (!client) return;
-
-    const messageHandler = (msg: { user: User; contents: string }) => {
-      const stamped = {
-        ...msg,
-        timestamp: new Date(),
-      };
-      setMessages((existing) => [...existing, stamped]);
-      if (onNewMessage) onNewMessage(stamped);
+    const messageHandler = (msg: Message) => {
+      if (onNewMessage) onNewMessage(msg);
+    };
+    const messageBlockedHandler = (msg: BlockedMessage) => {
+      if (onMessageBlocked) onMessageBlocked(msg);
+    };
+    const warningHandler = (warning: { from: User; message: string }) => {
+      if (onWarning) onWarning(warning);
     };
-
-    client.on("textMessage", messageHandler);
-
     const timerHandler = ({
       name,
       msRemaining,
@@ -315,236 +288,300 @@ const useConnectCall = ({
     }) => {
       onTimer && onTimer(name, msRemaining, msElapsed);
     };
+    const timerWarningHandler = (warning: TimerWarning) => {
+      if (onTimerWarning) onTimerWarning(warning);
+    };
+    const errorHandler = (error: Error) => {
+      if (onError) onError(error);
+    };
+    const statusChangeHandler = (change: CallStatusChange) => {
+      if (onCallStatusChange) onCallStatusChange(change);
+      const handler = {
+        [CallStatus.live]: undefined,
+        [CallStatus.ended]: onCallEnded,
+        [CallStatus.terminated]: onCallTerminated,
+        [CallStatus.missing_monitor]: onMissingMonitor,
+        [CallStatus.no_show]: onNoShow,
+      }[change.status];
+      if (handler) handler();
+    };
 
-    client.on("timer", timerHandler);
+    store.emitter.on("textMessage", messageHandler);
+    store.emitter.on("messageBlocked", messageBlockedHandler);
+    store.emitter.on("warning", warningHandler);
+    store.emitter.on("timer", timerHandler);
+    store.emitter.on("timerWarning", timerWarningHandler);
+    store.emitter.on("statusChange", statusChangeHandler);
+    store.emitter.on("error", errorHandler);
 
     return () => {
-      client.off("textMessage", messageHandler);
-      client.off("timer", timerHandler);
+      store.emitter.off("textMessage", messageHandler);
+      store.emitter.off("messageBlocked", messageBlockedHandler);
+      store.emitter.off("warning", warningHandler);
+      store.emitter.off("timer", timerHandler);
+      store.emitter.off("timerWarning", timerWarningHandler);
+      store.emitter.off("statusChange", statusChangeHandler);
+      store.emitter.off("error", errorHandler);
     };
-  }, [client, onNewMessage, onTimer]);
-
-  // the disconnect callback will stop user media and permanently close the
-  // current RoomClient. it tracks RoomClient in a ref so that it doesn't
-  // trigger when the client is being rebuilt after a temporary disconnect.
-  const lastClient = useRef<RoomClient>();
-  useEffect(() => {
-    lastClient.current = client;
-  }, [client]);
-  const disconnect = useCallback(async () => {
-    if (!lastClient.current) return;
-    setClientStatus(ClientStatus.disconnected);
-    lastClient.current.close(true); // Also stop user media grab
-  }, []);
+  }, [
+    store,
+    onNewMessage,
+    onMessageBlocked,
+    onWarning,
+    onTimer,
+    onTimerWarning,
+    onCallStatusChange,
+    onCallEnded,
+    onCallTerminated,
+    onMissingMonitor,
+    onNoShow,
+    onError,
+  ]);
 
-  const closeProducer = useCallback(
-    async (label: ProducerLabel) => {
-      if (!client) return;
+  return store;
+}
 
-      await client.closeProducer(label);
-    },
-    [client]
+/**
+ * useConnectCall integrates with RoomClient and provides observable values.
+ * It is a thin wrapper around a CallStore, which keeps the state of the call.
+ */
+const useConnectCall = (props: ConnectCallProps): ConnectCall => {
+  const { user } = props;
+  const store = useCallStore(props);
+  const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot);
+  const { peers, monitors, messages, stage } = snapshot;
+
+  const conversations = useMemo(
+    () => groupConversations(messages, user.id),
+    [messages, user.id]
   );
+  const invitedToStage = stage.invited.includes(user.id);
 
-  // ensure everything is disconnected and cleaned up when useConnectCall
-  // is unmounted.
-  useEffect(() => {
-    return () => void disconnect();
-  }, [disconnect]);
+  const enableFrux = useCallback(() => store.enableFrux(), [store]);
+  const manuallyReconnect = useCallback(() => void store.connect(), [store]);
+  const disconnect = useCallback(() => store.disconnect(), [store]);
+  const exportTimeline = useCallback(() => store.timeline.export(), [store]);
 
-  useEffect(() => {
-    if (!client) return;
-    setClientStatus(ClientStatus.connected);
-    return () => {
-      setClientStatus(ClientStatus.disconnected);
-    };
-  }, [client]);
+  const simulatePingLatency = useCallback(
+    (ping: number) => store.client?.simulatePingLatency(ping),
+    [store]
+  );
+  const stopSimulatingPingLatency = useCallback(
+    () => store.client?.stopSimulatingPingLatency(),
+    [store]
+  );
 
+  // Local media
+  const produceTrack = useCallback(
+    (track: MediaStreamTrack, label: ProducerLabel) =>
+      store.produceTrack(track, label),
+    [store]
+  );
+  const produceDevice = useCallback(
+    (label: ProducerLabel.audio | ProducerLabel.video) =>
+      store.produceDevice(label),
+    [store]
+  );
+  const replaceTrack = useCallback(
+    (label: ProducerLabel, track: MediaStreamTrack) =>
+      store.replaceTrack(label, track),
+    [store]
+  );
+  const selectDevice = useCallback(
+    (kind: MediaDeviceKind, deviceId: string) =>
+      store.selectDevice(kind, deviceId),
+    [store]
+  );
+  const attachAudioOutput = useCallback(
+    (element: HTMLMediaElement) =>
+      store.deviceManager.attachAudioOutput(element),
+    [store]
+  );
+  const closeProducer = useCallback(
+    (label: ProducerLabel) => store.closeProducer(label),
+    [store]
+  );
+  const pauseProducer = useCallback(
+    (label: ProducerLabel) => store.pauseProducer(label),
+    [store]
+  );
+  const resumeProducer = useCallback(
+    (label: ProducerLabel) => store.resumeProducer(label),
+    [store]
+  );
+  const setProducerProfile = useCallback(
+    (label: ProducerLabel, profile: ProducerProfile | ProducerPreset) =>
+      store.setProducerProfile(label, profile),
+    [store]
+  );
+
+  // Messages
   const sendMessage = useCallback(
-    async (contents: string) => {
-      if (!client) throw new Error("Not connected");
-      await client.sendMessage(contents);
-      setMessages((existing) => [
-        ...existing,
-        {
-          contents,
-          user: {
-            id: user.id,
-            role: client.user.role,
-          },
-          timestamp: new Date(),
-        },
-      ]);
-    },
-    [client, setMessages, user]
+    (contents: string, to?: MessageRecipient) =>
+      store.sendMessage(contents, to),
+    [store]
+  );
+  const retryMessage = useCallback(
+    (clientMessageId: string) => store.retryMessage(clientMessageId),
+    [store]
+  );
+  const textMessage = useCallback(
+    async (contents: string, to?: MessageRecipient) =>
+      store.requireClient().textMessage(contents, to),
+    [store]
   );
 
+  // Consumers
   const setPreferredSimulcastLayer = useCallback(
-    async ({
-      consumerId,
-      spatialLayer,
-      temporalLayer,
-    }: {
+    async (layers: {
       consumerId: string;
       spatialLayer: number;
       temporalLayer?: number;
     }) => {
-      if (!client) throw new Error("missing client");
-      await client.setPreferredSimulcastLayer({
-        consumerId,
-        spatialLayer,
-        temporalLayer,
-      });
+      if (!store.client) throw new Error("missing client");
+      await store.client.setPreferredSimulcastLayer(layers);
     },
-    [client]
+    [store]
   );
-
-  const pauseProducer = useCallback(
-    async (label: ProducerLabel) => {
-      if (client) {
-        await client.pauseProducer(label);
-      } else {
-        const producer = localProducers[label];
-
-        if (!producer) throw new Error("No such producer");
-
-        const track =
-          label === ProducerLabel.audio
-            ? producer.stream.getAudioTracks()[0]
-            : producer.stream.getVideoTracks()[0];
-
-        track.enabled = false;
-        setLocalProducers({
-          ...localProducers,
-          [label]: { stream: producer.stream, paused: true },
-        });
-      }
-    },
-    [client, localProducers]
+  const setConsumerHints = useCallback(
+    (consumerId: string, hints: Partial<ConsumerHints>) =>
+      store.client?.setConsumerHints(consumerId, hints),
+    [store]
   );
-
-  const resumeProducer = useCallback(
-    async (label: ProducerLabel) => {
-      if (client) {
-        await client.resumeProducer(label);
-      } else {
-        const producer = localProducers[label];
-
-        if (!producer) throw new Error("No such producer");
-
-        const track =
-          label === ProducerLabel.audio
-            ? producer.stream.getAudioTracks()[0]
-            : producer.stream.getVideoTracks()[0];
-
-        track.enabled = true;
-        setLocalProducers({
-          ...localProducers,
-          [label]: { stream: producer.stream, paused: false },
-        });
-      }
-    },
-    [client, localProducers]
+  const pauseConsumer = useCallback(
+    async (peerId: string, label: ProducerLabel) =>
+      store.client?.pauseConsumer(peerId, label),
+    [store]
+  );
+  const resumeConsumer = useCallback(
+    async (peerId: string, label: ProducerLabel) =>
+      store.client?.resumeConsumer(peerId, label),
+    [store]
   );
 
   // Operations
-  const terminateCall = useCallback(async () => {
-    if (!client) throw new Error("Not connected");
-    await client.terminate();
-  }, [client]);
-
-  const terminate = terminateCall;
-
-  const textMessage = useCallback(
-    async (contents: string) => {
-      if (!client) throw new Error("Not connected");
-      await client.textMessage(contents);
-    },
-    [client]
+  const terminateCall = useCallback(
+    async () => store.requireClient().terminate(),
+    [store]
   );
+  const terminate = terminateCall;
 
   const remoteAudioMute = useCallback(
-    async (targetUserId: string) => {
-      if (!client) throw new Error("Not connected");
-      await client.remoteAudioMute(targetUserId);
-    },
-    [client]
+    async (targetUserId: string) =>
+      store.requireClient().remoteAudioMute(targetUserId),
+    [store]
   );
   const remoteAudioUnmute = useCallback(
-    async (targetUserId: string) => {
-      if (!client) throw new Error("Not connected");
-      await client.remoteAudioUnmute(targetUserId);
-    },
-    [client]
+    async (targetUserId: string) =>
+      store.requireClient().remoteAudioUnmute(targetUserId),
+    [store]
   );
   const remoteVideoMute = useCallback(
-    async (targetUserId: string) => {
-      if (!client) throw new Error("Not connected");
-      await client.remoteVideoMute(targetUserId);
-    },
-    [client]
+    async (targetUserId: string) =>
+      store.requireClient().remoteVideoMute(targetUserId),
+    [store]
   );
   const remoteVideoUnmute = useCallback(
-    async (targetUserId: string) => {
-      if (!client) throw new Error("Not connected");
-      await client.remoteVideoUnmute(targetUserId);
-    },
-    [client]
+    async (targetUserId: string) =>
+      store.requireClient().remoteVideoUnmute(targetUserId),
+    [store]
   );
 
-  const raiseHand = useCallback(async () => {
-    if (!client) throw new Error("Not connected");
-    await client.raiseHand();
-  }, [client]);
-  const lowerHand = useCallback(async () => {
-    if (!client) throw new Error("Not connected");
-    await client.lowerHand();
-  }, [client]);
+  const raiseHand = useCallback(
+    async () => store.requireClient().raiseHand(),
+    [store]
+  );
+  const lowerHand = useCallback(
+    async () => store.requireClient().lowerHand(),
+    [store]
+  );
   const remoteLowerHand = useCallback(
-    async (targetUserId: string) => {
-      if (!client) throw new Error("Not connected");
-      await client.remoteLowerHand(targetUserId);
-    },
-    [client]
+    async (targetUserId: string) =>
+      store.requireClient().remoteLowerHand(targetUserId),
+    [store]
+  );
+  const lowerAllHands = useCallback(
+    async () => store.requireClient().lowerAllHands(),
+    [store]
   );
 
-  const produceTrack = useCallback(
-    async (track: MediaStreamTrack, label: ProducerLabel) => {
-      if (!client) throw new Error("Not connected");
-      await client.produce(track, label);
-      const stream = new MediaStream();
-      stream.addTrack(track);
-    },
-    [client]
+  const can = useCallback((action: CallAction) => store.can(action), [store]);
+
+  // Webinar stage
+  const inviteToStage = useCallback(
+    async (targetUserId: string) =>
+      store.requireClient().inviteToStage(targetUserId),
+    [store]
+  );
+  const removeFromStage = useCallback(
+    async (targetUserId: string) =>
+      store.requireClient().removeFromStage(targetUserId),
+    [store]
+  );
+  const acceptStageInvitation = useCallback(
+    async () => store.requireClient().acceptStageInvitation(),
+    [store]
+  );
+  const declineStageInvitation = useCallback(
+    async () => store.requireClient().declineStageInvitation(),
+    [store]
+  );
+  const leaveStage = useCallback(
+    async () => store.requireClient().leaveStage(),
+    [store]
   );
 
-  const pauseConsumer = useCallback(
-    async (peerId: string, label: ProducerLabel) => {
-      if (client) await client.pauseConsumer(peerId, label);
-    },
-    [client]
+  // Monitor console
+  const removeParticipant = useCallback(
+    async (targetUserId: string, reason?: string) =>
+      store.requireClient().removeParticipant(targetUserId, reason),
+    [store]
   );
-  const resumeConsumer = useCallback(
-    async (peerId: string, label: ProducerLabel) => {
-      if (client) await client.resumeConsumer(peerId, label);
-    },
-    [client]
+  const lockRoom = useCallback(
+    async () => store.requireClient().lockRoom(),
+    [store]
+  );
+  const unlockRoom = useCallback(
+    async () => store.requireClient().unlockRoom(),
+    [store]
+  );
+  const warnParticipant = useCallback(
+    async (targetUserId: string, message: string) =>
+      store.requireClient().warnParticipant(targetUserId, message),
+    [store]
+  );
+  const admitEntrant = useCallback(
+    async (targetUserId: string) =>
+      store.requireClient().admitEntrant(targetUserId),
+    [store]
+  );
+  const denyEntrant = useCallback(
+    async (targetUserId: string, reason?: string) =>
+      store.requireClient().denyEntrant(targetUserId, reason),
+    [store]
+  );
+
+  const enableConnectionMonitoring = useCallback(
+    () => store.requireClient().enableConnectionMonitoring(),
+    [store]
+  );
+  const disableConnectionMonitoring = useCallback(
+    () => store.requireClient().disableConnectionMonitoring(),
+    [store]
   );
 
-  const enableConnectionMonitoring = useCallback(() => {
-    if (!client) throw new Error("Not connected");
-    return client.enableConnectionMonitoring();
-  }, [client]);
-  const disableConnectionMonitoring = useCallback(() => {
-    if (!client) throw new Error("Not connected");
-    return client.disableConnectionMonitoring();
-  }, [client]);
+  const runPreCallCheck = useCallback(
+    (options?: Partial<PreCallCheckOptions>) => store.runPreCallCheck(options),
+    [store]
+  );
 
   return {
     // Connection and room status
-    clientStatus,
-    callStatus,
-    error,
+    clientStatus: snapshot.clientStatus,
+    callStatus: snapshot.callStatus,
+    previousCallStatus: snapshot.previousCallStatus,
+    error: snapshot.error,
+    transportStates: snapshot.transportStates,
 
     // Frux
     enableFrux,
@@ -553,29 +590,44 @@ const useConnectCall = ({
     peers,
     monitors,
 
+    // Who is talking
+    activeSpeakerPeerId: snapshot.activeSpeakerPeerId,
+    watchAudioLevels: store.watchAudioLevels,
+
     // Self
-    user: trackedUser,
+    user: snapshot.user,
 
     // Produce local streams
     produceTrack,
+    produceDevice,
+    replaceTrack,
+
+    // Select local devices
+    devices: snapshot.devices,
+    selectedDevices: snapshot.selectedDevices,
+    selectDevice,
+    attachAudioOutput,
 
     // Get local streams
-    localProducers,
+    localProducers: snapshot.localProducers,
 
     // Manipulate local streams
     closeProducer,
     pauseProducer,
     resumeProducer,
+    setProducerProfile,
 
     // Send and receive messages
     messages,
+    conversations,
     sendMessage,
+    retryMessage,
 
     // Disconnect
     disconnect,
 
     // Reconnect
-    disconnectReason,
+    disconnectReason: snapshot.disconnectReason,
     manuallyReconnect,
 
     // Server operations
@@ -588,12 +640,55 @@ const useConnectCall = ({
     raiseHand,
     lowerHand,
     remoteLowerHand,
+    lowerAllHands,
+    handQueue: snapshot.handQueue,
     setPreferredSimulcastLayer,
+    setConsumerHints,
     pauseConsumer,
     resumeConsumer,
     enableConnectionMonitoring,
     disableConnectionMonitoring,
 
+    // Timers
+    watchTimers: store.watchTimers,
+
+    // Permissions
+    can,
+
+    // Webinar stage
+    stage,
+    invitedToStage,
+    inviteToStage,
+    removeFromStage,
+    acceptStageInvitation,
+    declineStageInvitation,
+    leaveStage,
+
+    // Monitor console
+    removeParticipant,
+    lockRoom,
+    unlockRoom,
+    warnParticipant,
+    roomLocked: snapshot.roomLocked,
+    auditTrail: snapshot.auditTrail,
+
+    // Waiting room
+    waitingPosition: snapshot.waitingPosition,
+    entrants: snapshot.entrants,
+    admitEntrant,
+    denyEntrant,
+
+    // Stats, see useCallStats
+    watchStats: store.watchStats,
+
+    // Lobby
+    preCallReport: snapshot.preCallReport,
+    runPreCallCheck,
+
+    // History
+    timeline: store.timeline,
+    exportTimeline,
+
     // Debugging
     simulatePingLatency,
     stopSimulatingPingLatency,
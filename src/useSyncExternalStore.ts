@@ -0,0 +1,47 @@
+import * as React from "react";
+import { useEffect, useLayoutEffect, useState } from "react";
+
+type UseSyncExternalStore = <T>(
+  subscribe: (onStoreChange: () => void) => () => void,
+  getSnapshot: () => T
+) => T;
+
+type Instance<T> = { value: T; getSnapshot: () => T };
+
+function changed<T>(inst: Instance<T>): boolean {
+  return !Object.is(inst.value, inst.getSnapshot());
+}
+
+// before React 18, subscribe in an effect and check for changes missed
+// between rendering and subscribing
+const useSyncExternalStoreShim: UseSyncExternalStore = (
+  subscribe,
+  getSnapshot
+) => {
+  const value = getSnapshot();
+  const [{ inst }, forceUpdate] = useState({ inst: { value, getSnapshot } });
+
+  useLayoutEffect(() => {
+    inst.value = value;
+    inst.getSnapshot = getSnapshot;
+    if (changed(inst)) forceUpdate({ inst });
+  }, [inst, value, getSnapshot]);
+
+  useEffect(() => {
+    if (changed(inst)) forceUpdate({ inst });
+    return subscribe(() => {
+      if (changed(inst)) forceUpdate({ inst });
+    });
+  }, [inst, subscribe]);
+
+  return value;
+};
+
+/**
+ * useSyncExternalStore is React's own from React 18, and a shim before
+ */
+const useSyncExternalStore: UseSyncExternalStore =
+  (React as { useSyncExternalStore?: UseSyncExternalStore })
+    .useSyncExternalStore || useSyncExternalStoreShim;
+
+export default useSyncExternalStore;